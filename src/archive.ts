@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as stream from 'stream';
+import * as zlib from 'zlib';
+
+import { promisify } from 'util';
+
+const ERROR_INVALID_ARCHIVE = "Invalid archive"
+const ERROR_UNSUPPORTED_ARCHIVE = "Unsupported archive"
+
+const TAR_BLOCK_SIZE = 512
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50
+const ZIP_METHOD_STORED = 0
+const ZIP_METHOD_DEFLATED = 8
+
+const ARCHIVE_EXTENSIONS = [ ".tar.gz", ".tgz", ".zip" ]
+
+/**
+ * Check if a file name points to an archive we know how to extract
+ * @param fileName file name or URL
+ * @returns the archive extension, or undefined for plain files
+ */
+export function archiveExtension(fileName : string) : string | undefined {
+    const lowered = fileName.toLowerCase()
+    return ARCHIVE_EXTENSIONS.find(ext => lowered.endsWith(ext))
+}
+
+/** Parse a NUL terminated string field of a tar header */
+const tarString = (header : Buffer, offset : number, length : number) : string => {
+    const field = header.subarray(offset, offset + length)
+    const end = field.indexOf(0)
+    return field.toString('utf8', 0, end < 0 ? field.length : end)
+}
+
+/** Parse an octal number field of a tar header */
+const tarNumber = (header : Buffer, offset : number, length : number) : number => {
+    const text = tarString(header, offset, length).trim()
+    return text.length > 0 ? parseInt(text, 8) : 0
+}
+
+/**
+ * Streaming tar reader that writes the first entry accepted by `match` into `destPath`
+ */
+class TarExtractor extends stream.Writable {
+    found = false
+
+    private _pending = Buffer.alloc(0)
+    private _remaining = 0
+    private _padding = 0
+    private _entryType = ""
+    private _longName : string | undefined = undefined
+    private _meta : Buffer[] = []
+    private _out : fs.WriteStream | undefined = undefined
+
+    constructor(private _destPath : string, private _match : (entryName : string) => boolean) {
+        super()
+    }
+
+    _write(chunk : Buffer, _encoding : string, callback : (error? : Error | null) => void) {
+        this.consume(chunk).then(() => callback(), callback)
+    }
+
+    _final(callback : (error? : Error | null) => void) {
+        if (this._remaining > 0) {
+            return callback(new Error(`${ERROR_INVALID_ARCHIVE}: truncated tar entry`))
+        }
+        callback()
+    }
+
+    _destroy(error : Error | null, callback : (error? : Error | null) => void) {
+        this._out?.destroy()
+        callback(error)
+    }
+
+    private async consume(chunk : Buffer) {
+        this._pending = this._pending.length > 0 ? Buffer.concat([this._pending, chunk]) : chunk
+
+        while (this._pending.length > 0) {
+            if (this._remaining > 0) {
+                const data = this.take(Math.min(this._remaining, this._pending.length))
+                this._remaining -= data.length
+                await this.onEntryData(data)
+                if (this._remaining === 0) {
+                    await this.onEntryEnd()
+                }
+                continue
+            }
+
+            if (this._padding > 0) {
+                this._padding -= this.take(Math.min(this._padding, this._pending.length)).length
+                continue
+            }
+
+            if (this._pending.length < TAR_BLOCK_SIZE) return
+
+            const header = this.take(TAR_BLOCK_SIZE)
+            /* end of archive is marked by zero blocks */
+            if (header.every(byte => byte === 0)) continue
+
+            await this.onEntryStart(header)
+        }
+    }
+
+    private take(length : number) : Buffer {
+        const data = this._pending.subarray(0, length)
+        this._pending = this._pending.subarray(length)
+        return data
+    }
+
+    private async onEntryStart(header : Buffer) {
+        const size = tarNumber(header, 124, 12)
+        const prefix = tarString(header, 345, 155)
+        const name = this._longName ?? (prefix ? `${prefix}/${tarString(header, 0, 100)}` : tarString(header, 0, 100))
+
+        this._entryType = String.fromCharCode(header[156] || 0x30)
+        this._remaining = size
+        this._padding = (TAR_BLOCK_SIZE - size % TAR_BLOCK_SIZE) % TAR_BLOCK_SIZE
+        this._meta = []
+
+        /* long names only apply to the entry following them */
+        if (this._entryType !== 'x' && this._entryType !== 'L') {
+            this._longName = undefined
+        }
+
+        if (this._entryType === '0' && !this.found && this._match(name)) {
+            this.found = true
+            this._out = fs.createWriteStream(this._destPath)
+        }
+
+        if (size === 0) {
+            await this.onEntryEnd()
+        }
+    }
+
+    private async onEntryData(data : Buffer) {
+        if (this._out) {
+            if (!this._out.write(data)) {
+                await new Promise(resolve => this._out.once('drain', resolve))
+            }
+        } else if (this._entryType === 'x' || this._entryType === 'L') {
+            this._meta.push(Buffer.from(data))
+        }
+    }
+
+    private async onEntryEnd() {
+        if (this._out) {
+            const out = this._out
+            this._out = undefined
+            await new Promise((resolve, reject) => {
+                out.on('error', reject)
+                out.end(resolve)
+            })
+        } else if (this._entryType === 'L') {
+            const meta = Buffer.concat(this._meta)
+            this._longName = tarString(meta, 0, meta.length)
+        } else if (this._entryType === 'x') {
+            /* pax records look like "<length> <key>=<value>\n" */
+            const records = Buffer.concat(this._meta).toString('utf8')
+            const pathRecord = records.split('\n').find(record => / path=/.test(record))
+            if (pathRecord) {
+                this._longName = pathRecord.substring(pathRecord.indexOf('=') + 1)
+            }
+        }
+    }
+}
+
+async function extractFromTarGz(archivePath : string, destPath : string,
+    match : (entryName : string) => boolean) : Promise<boolean> {
+    const extractor = new TarExtractor(destPath, match)
+    await promisify(stream.pipeline)(fs.createReadStream(archivePath), zlib.createGunzip(), extractor)
+    return extractor.found
+}
+
+async function extractFromZip(archivePath : string, destPath : string,
+    match : (entryName : string) => boolean) : Promise<boolean> {
+    const data = await fs.promises.readFile(archivePath)
+
+    /* the end of central directory record is followed by an optional comment of up to 64k */
+    let endOffset = -1
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+        if (data.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i
+            break
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error(`${ERROR_INVALID_ARCHIVE}: missing zip central directory`)
+    }
+
+    const entriesCount = data.readUInt16LE(endOffset + 10)
+    let offset = data.readUInt32LE(endOffset + 16)
+
+    for (let i = 0; i < entriesCount; i++) {
+        if (data.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+            throw new Error(`${ERROR_INVALID_ARCHIVE}: corrupted zip central directory`)
+        }
+
+        const method = data.readUInt16LE(offset + 10)
+        const compressedSize = data.readUInt32LE(offset + 20)
+        const nameLength = data.readUInt16LE(offset + 28)
+        const extraLength = data.readUInt16LE(offset + 30)
+        const commentLength = data.readUInt16LE(offset + 32)
+        const localOffset = data.readUInt32LE(offset + 42)
+        const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+        offset += 46 + nameLength + extraLength + commentLength
+
+        if (name.endsWith('/') || !match(name)) continue
+
+        if (data.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+            throw new Error(`${ERROR_INVALID_ARCHIVE}: corrupted zip entry ${name}`)
+        }
+        const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28)
+        const compressed = data.subarray(start, start + compressedSize)
+
+        switch (method) {
+            case ZIP_METHOD_STORED:
+                await fs.promises.writeFile(destPath, compressed)
+                break
+            case ZIP_METHOD_DEFLATED:
+                await fs.promises.writeFile(destPath, await promisify(zlib.inflateRaw)(compressed))
+                break
+            default:
+                throw new Error(`${ERROR_UNSUPPORTED_ARCHIVE}: zip compression method ${method}`)
+        }
+        return true
+    }
+
+    return false
+}
+
+/**
+ * Extract a single file out of a tar.gz or zip archive
+ * @param archivePath the archive on the system
+ * @param destPath where to write the extracted file
+ * @param fileNames accepted base names of the file to extract
+ * @returns true if the file was found and extracted
+ */
+export async function extractFile(archivePath : string, destPath : string, fileNames : string[]) : Promise<boolean> {
+    const match = (entryName : string) => fileNames.includes(path.posix.basename(entryName.replace(/\\/g, '/')))
+
+    switch (archiveExtension(archivePath)) {
+        case ".tar.gz":
+        case ".tgz":
+            return extractFromTarGz(archivePath, destPath, match)
+        case ".zip":
+            return extractFromZip(archivePath, destPath, match)
+        default:
+            throw new Error(`${ERROR_UNSUPPORTED_ARCHIVE}: ${path.basename(archivePath)}`)
+    }
+}
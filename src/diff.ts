@@ -0,0 +1,89 @@
+import { KubescapeReport } from './report';
+import { KubescapeFinding, KubescapeReportQuery } from './query';
+
+/** A score in both scans, missing on the side where it was not scored */
+export type KubescapeScoreChange = {
+    name : string,
+    before? : number,
+    after? : number,
+    /** after minus before, 0 when one side is missing */
+    delta : number
+}
+
+/** What changed between a baseline scan and a newer one */
+export type KubescapeReportDiff = {
+    /** failures of the current scan the baseline did not have */
+    newFindings : KubescapeFinding[],
+    /** failures of the baseline that are gone, as reported in the baseline */
+    fixedFindings : KubescapeFinding[],
+    /** failures of both scans, as reported in the current scan */
+    unchangedFindings : KubescapeFinding[],
+    /** controls failing now that did not fail for any resource before */
+    newControls : string[],
+    /** controls that failed before and do not fail for any resource now */
+    fixedControls : string[],
+    /** resources that failed before and do not fail any control now, including removed ones */
+    fixedResources : string[],
+    score : KubescapeScoreChange,
+    frameworks : KubescapeScoreChange[],
+    /** controls whose score changed */
+    controls : KubescapeScoreChange[]
+}
+
+const findingKey = (finding : KubescapeFinding) : string => `${finding.controlID}|${finding.resourceID}`
+
+const scoreChange = (name : string, before : number | undefined, after : number | undefined) : KubescapeScoreChange => ({
+    name: name,
+    before: before,
+    after: after,
+    delta: before !== undefined && after !== undefined ? after - before : 0
+})
+
+/** Names in the order they are first seen */
+const union = (...lists : string[][]) : string[] => [ ...new Set(lists.reduce((all, list) => all.concat(list), [])) ]
+
+/**
+ * Compare two scans by control and resource
+ * @param baseline the older scan
+ * @param current the newer scan
+ * @returns the new, fixed and unchanged failures, and the score changes
+ */
+export function diffReports(baseline : KubescapeReport, current : KubescapeReport) : KubescapeReportDiff {
+    const before = new KubescapeReportQuery(baseline).findings({ status: "failed" })
+    const after = new KubescapeReportQuery(current).findings({ status: "failed" })
+
+    const beforeKeys = new Set(before.map(findingKey))
+    const afterKeys = new Set(after.map(findingKey))
+
+    const failingControls = (findings : KubescapeFinding[]) => new Set(findings.map(f => f.controlID))
+    const controlsBefore = failingControls(before)
+    const controlsAfter = failingControls(after)
+    const failingResources = (findings : KubescapeFinding[]) => new Set(findings.map(f => f.resourceID))
+    const resourcesAfter = failingResources(after)
+
+    const frameworksBefore = new Map(baseline.summaryDetails.frameworks.map(f => [ f.name, f.complianceScore ?? f.score ]))
+    const frameworksAfter = new Map(current.summaryDetails.frameworks.map(f => [ f.name, f.complianceScore ?? f.score ]))
+
+    const controlScore = (report : KubescapeReport, controlID : string) : number | undefined => {
+        const control = report.summaryDetails.controls[controlID]
+        return control ? control.complianceScore ?? control.score : undefined
+    }
+    const controlIDs = union(Object.keys(baseline.summaryDetails.controls), Object.keys(current.summaryDetails.controls))
+
+    return {
+        newFindings: after.filter(f => !beforeKeys.has(findingKey(f))),
+        fixedFindings: before.filter(f => !afterKeys.has(findingKey(f))),
+        unchangedFindings: after.filter(f => beforeKeys.has(findingKey(f))),
+        newControls: [ ...controlsAfter ].filter(id => !controlsBefore.has(id)),
+        fixedControls: [ ...controlsBefore ].filter(id => !controlsAfter.has(id)),
+        fixedResources: [ ...failingResources(before) ].filter(id => !resourcesAfter.has(id)),
+        score: scoreChange("",
+            baseline.summaryDetails.complianceScore ?? baseline.summaryDetails.score,
+            current.summaryDetails.complianceScore ?? current.summaryDetails.score),
+        frameworks: union([ ...frameworksBefore.keys() ], [ ...frameworksAfter.keys() ])
+            .map(name => scoreChange(name, frameworksBefore.get(name), frameworksAfter.get(name))),
+        controls: controlIDs
+            .map(id => scoreChange(id, controlScore(baseline, id), controlScore(current, id)))
+            .filter(change => change.before !== change.after)
+    }
+}
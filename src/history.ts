@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { KubescapeReport, parseReport } from './report';
+import { writeFileAtomic } from './util';
+
+const HISTORY_DIRECTORY_NAME = "history"
+const REPORT_FILE_SUFFIX = ".json"
+const META_FILE_SUFFIX = ".meta.json"
+
+const ERROR_HISTORY_ENTRY_NOT_FOUND = "Scan history entry not found"
+
+/** Retention of the scan history, the newest entry is always kept */
+export type KubescapeHistoryOptions = {
+
+    /** How many scans to keep */
+    maxEntries? : number
+
+    /** Drop scans older than this many milliseconds */
+    maxAge? : number
+
+    /** Drop the oldest scans once their reports take more than this many bytes */
+    maxSize? : number
+}
+
+const DEFAULT_HISTORY_OPTIONS : KubescapeHistoryOptions = {
+    maxEntries: 20,
+    maxAge: undefined,
+    maxSize: undefined
+}
+
+export type KubescapeHistoryScanType = "cluster" | "yaml" | "content"
+
+/** What a scan was about */
+export type KubescapeHistoryTarget = {
+    type : KubescapeHistoryScanType,
+    /** the scanned file or content name, or the cluster context */
+    target : string,
+    /** the kube context of cluster scans */
+    context? : string,
+    kubescapeVersion? : string,
+    frameworks : string[]
+}
+
+/** A saved scan */
+export type KubescapeHistoryEntry = KubescapeHistoryTarget & {
+    id : string,
+    /** ISO time of the scan */
+    timestamp : string,
+    score? : number,
+    /** size of the saved report in bytes */
+    size : number
+}
+
+/** Entry IDs are only ever file names we created */
+const isValidId = (id : string) : boolean => /^[\w-]+$/.test(id)
+
+/**
+ * Saved scan results under a directory, with a retention limit
+ */
+export class KubescapeHistory {
+    private _options : KubescapeHistoryOptions
+
+    constructor(private _directory : string, options : KubescapeHistoryOptions = {}) {
+        this._options = { ...DEFAULT_HISTORY_OPTIONS, ...options }
+    }
+
+    /**
+     * The history kept in the kubescape base directory
+     * @param baseDirectory the kubescape base directory
+     * @param options retention settings
+     */
+    static inBaseDirectory(baseDirectory : string, options : KubescapeHistoryOptions = {}) : KubescapeHistory {
+        return new KubescapeHistory(path.join(baseDirectory, HISTORY_DIRECTORY_NAME), options)
+    }
+
+    get directory() : string {
+        return this._directory
+    }
+
+    private reportPath(id : string) : string {
+        return path.join(this._directory, `${id}${REPORT_FILE_SUFFIX}`)
+    }
+
+    private metaPath(id : string) : string {
+        return path.join(this._directory, `${id}${META_FILE_SUFFIX}`)
+    }
+
+    /**
+     * Save the results of a scan, then drop entries beyond the retention limit
+     * @param report the results of the scan
+     * @param target what was scanned
+     * @param timestamp when it was scanned
+     * @returns the saved entry
+     */
+    async save(report : KubescapeReport, target : KubescapeHistoryTarget,
+        timestamp : Date = new Date()) : Promise<KubescapeHistoryEntry> {
+        await fs.promises.mkdir(this._directory, { recursive: true })
+
+        /* IDs sort by time */
+        const id = `${timestamp.toISOString().replace(/[-:.]/g, "")}-${uuidv4().substring(0, 8)}`
+        const content = JSON.stringify(report)
+        const entry : KubescapeHistoryEntry = {
+            ...target,
+            id: id,
+            timestamp: timestamp.toISOString(),
+            score: report.summaryDetails.complianceScore ?? report.summaryDetails.score,
+            size: Buffer.byteLength(content)
+        }
+
+        /* the metadata goes last, entries are listed by it */
+        await writeFileAtomic(this.reportPath(id), content)
+        await writeFileAtomic(this.metaPath(id), JSON.stringify(entry))
+
+        await this.prune()
+        return entry
+    }
+
+    /**
+     * List the saved scans
+     * @returns the entries, newest first
+     */
+    async list() : Promise<KubescapeHistoryEntry[]> {
+        let fileNames : string[]
+        try {
+            fileNames = await fs.promises.readdir(this._directory)
+        } catch (e) {
+            if (e.code === 'ENOENT') return []
+            throw e
+        }
+
+        const entries : KubescapeHistoryEntry[] = []
+        for (const fileName of fileNames.filter(name => name.endsWith(META_FILE_SUFFIX))) {
+            try {
+                entries.push(JSON.parse(await fs.promises.readFile(path.join(this._directory, fileName), 'utf8')))
+            } catch {
+                /* deleted meanwhile */
+            }
+        }
+        return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id))
+    }
+
+    /**
+     * Load the results of a saved scan
+     * @param id the entry ID
+     */
+    async load(id : string) : Promise<KubescapeReport> {
+        if (!isValidId(id)) {
+            throw new Error(`${ERROR_HISTORY_ENTRY_NOT_FOUND}: ${id}`)
+        }
+
+        let content : string
+        try {
+            content = await fs.promises.readFile(this.reportPath(id), 'utf8')
+        } catch (e) {
+            if (e.code === 'ENOENT') throw new Error(`${ERROR_HISTORY_ENTRY_NOT_FOUND}: ${id}`)
+            throw e
+        }
+        return parseReport(content)
+    }
+
+    /**
+     * Delete a saved scan
+     * @param id the entry ID
+     * @returns false if there was no such entry
+     */
+    async delete(id : string) : Promise<boolean> {
+        if (!isValidId(id)) return false
+
+        const existed = fs.existsSync(this.metaPath(id))
+        await fs.promises.rm(this.metaPath(id), { force: true })
+        await fs.promises.rm(this.reportPath(id), { force: true })
+        return existed
+    }
+
+    /**
+     * Drop the entries beyond the retention limit
+     * @param now the time to compute ages from
+     * @returns the dropped entries
+     */
+    async prune(now : Date = new Date()) : Promise<KubescapeHistoryEntry[]> {
+        const { maxEntries, maxAge, maxSize } = this._options
+        const dropped : KubescapeHistoryEntry[] = []
+
+        let totalSize = 0
+        const entries = await this.list()
+        for (let i = 0; i < entries.length; i++) {
+            const entry = entries[i]
+            totalSize += entry.size
+
+            const keep = i === 0 || (
+                (maxEntries === undefined || i < maxEntries) &&
+                (maxAge === undefined || now.getTime() - Date.parse(entry.timestamp) <= maxAge) &&
+                (maxSize === undefined || totalSize <= maxSize))
+            if (!keep) {
+                await this.delete(entry.id)
+                dropped.push(entry)
+            }
+        }
+        return dropped
+    }
+}
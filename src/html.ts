@@ -0,0 +1,165 @@
+import { KubescapeReport, KubescapeSeverity, scoreFactorToSeverity } from './report';
+import { KubescapeReportQuery } from './query';
+import { percent } from './util';
+
+const DEFAULT_TITLE = "Kubescape report"
+
+export type KubescapeHtmlOptions = {
+
+    /** Title of the page */
+    title? : string
+}
+
+const escapeHtml = (text : string | number | undefined) : string => String(text ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+
+/** Sort order of the severities */
+const SEVERITY_RANKS : { [severity in KubescapeSeverity]: number } = { Critical: 4, High: 3, Medium: 2, Low: 1, Unknown: 0 }
+
+
+/* everything is inlined so the file opens offline */
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2em; color: #24292f; }
+h1 { margin-bottom: 0; }
+.meta { color: #57606a; margin-bottom: 2em; }
+.frameworks { display: flex; flex-wrap: wrap; gap: 1em; margin-bottom: 2em; }
+.framework { border: 1px solid #d0d7de; border-radius: 6px; padding: 1em 1.5em; min-width: 10em; }
+.framework .score { font-size: 2em; font-weight: bold; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+th, td { border-bottom: 1px solid #d0d7de; padding: 0.4em 0.6em; text-align: left; vertical-align: top; }
+th[data-sort] { cursor: pointer; user-select: none; }
+th[data-sort]::after { content: " \\2195"; color: #8c959f; }
+.severity-Critical { color: #8b0000; font-weight: bold; }
+.severity-High { color: #cf222e; }
+.severity-Medium { color: #bc4c00; }
+.severity-Low { color: #9a6700; }
+.status-failed { color: #cf222e; }
+.status-passed { color: #1a7f37; }
+details { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5em 1em; margin-bottom: 0.5em; }
+summary { cursor: pointer; }
+code { background: #f6f8fa; padding: 0.1em 0.3em; border-radius: 3px; }
+`
+
+const SCRIPT = `
+document.querySelectorAll("th[data-sort]").forEach(function (header) {
+    header.addEventListener("click", function () {
+        var table = header.closest("table");
+        var body = table.tBodies[0];
+        var index = Array.prototype.indexOf.call(header.parentNode.children, header);
+        var numeric = header.getAttribute("data-sort") === "number";
+        var descending = header.getAttribute("data-order") !== "desc";
+        header.setAttribute("data-order", descending ? "desc" : "asc");
+        var rows = Array.prototype.slice.call(body.rows);
+        rows.sort(function (a, b) {
+            var x = a.cells[index].getAttribute("data-value");
+            var y = b.cells[index].getAttribute("data-value");
+            var order = numeric ? parseFloat(x) - parseFloat(y) : x.localeCompare(y);
+            return descending ? -order : order;
+        });
+        rows.forEach(function (row) { body.appendChild(row); });
+    });
+});
+`
+
+const td = (text : string, value : string | number, className = "") : string =>
+    `<td data-value="${escapeHtml(value)}"${className ? ` class="${escapeHtml(className)}"` : ""}>${text}</td>`
+
+/**
+ * Render the results of a scan as a single HTML file that needs no network access
+ * @param report the results of the scan, with the control information appended by the scan
+ * @param options title of the page
+ * @returns the HTML document
+ */
+export function toHtml(report : KubescapeReport, options : KubescapeHtmlOptions = {}) : string {
+    const summary = report.summaryDetails
+    const query = new KubescapeReportQuery(report)
+    const title = options.title ?? DEFAULT_TITLE
+
+    const meta = [
+        report.clusterName ? `Cluster <strong>${escapeHtml(report.clusterName)}</strong>` : undefined,
+        report.generationTime ? `Scanned ${escapeHtml(report.generationTime)}` : undefined,
+        report.metadata?.scanMetadata?.kubescapeVersion ?
+            `kubescape ${escapeHtml(report.metadata.scanMetadata.kubescapeVersion)}` : undefined,
+        `Overall score <strong>${percent(summary.complianceScore ?? summary.score)}</strong>`
+    ].filter(part => part).join(" &middot; ")
+
+    const frameworks = summary.frameworks.map(framework => `
+<div class="framework">
+  <div>${escapeHtml(framework.name)}</div>
+  <div class="score">${percent(framework.complianceScore ?? framework.score)}</div>
+</div>`).join("")
+
+    const controlRows = Object.values(summary.controls).map(control => {
+        const severity = scoreFactorToSeverity(control.scoreFactor)
+        const counters = control.ResourceCounters
+        const score = control.complianceScore ?? control.score
+        return `<tr>` +
+            td(escapeHtml(control.controlID), control.controlID) +
+            td(escapeHtml(control.name), control.name) +
+            td(severity, SEVERITY_RANKS[severity], `severity-${severity}`) +
+            td(escapeHtml(control.status), control.status, `status-${control.status}`) +
+            td(String(counters?.failedResources ?? 0), counters?.failedResources ?? 0) +
+            td(String(counters?.passedResources ?? 0), counters?.passedResources ?? 0) +
+            td(percent(score), score ?? -1) +
+            td(escapeHtml(control.remediation), control.remediation ?? "") +
+            `</tr>`
+    }).join("\n")
+
+    const resources = query.byResource({ status: "failed" }).map(resource => {
+        const ref = resource.resource
+        const name = [ ref.namespace, ref.kind, ref.name ].filter(part => part).join('/')
+        const source = resource.source?.relativePath ?
+            ` <small>${escapeHtml([ resource.source.path, resource.source.relativePath ].filter(p => p).join('/'))}</small>` : ""
+
+        const findings = resource.findings.map(finding => {
+            const paths = finding.paths
+                .map(p => p.failedPath ?? (p.fixPath ? `${p.fixPath.path} = ${p.fixPath.value}` : p.reviewPath ?? p.deletePath))
+                .filter(p => p)
+                .map(p => `<li><code>${escapeHtml(p)}</code></li>`).join("")
+            return `<li><span class="severity-${finding.severity}">${finding.severity}</span> ` +
+                `<strong>${escapeHtml(finding.controlID)}</strong> ${escapeHtml(finding.controlName)}` +
+                (finding.description ? `<p>${escapeHtml(finding.description)}</p>` : "") +
+                (finding.remediation ? `<p><em>Remediation:</em> ${escapeHtml(finding.remediation)}</p>` : "") +
+                (paths ? `<ul>${paths}</ul>` : "") +
+                `</li>`
+        }).join("\n")
+
+        return `<details>\n<summary>${escapeHtml(name)} &mdash; ${resource.findings.length} failed` +
+            `${source}</summary>\n<ul>\n${findings}\n</ul>\n</details>`
+    }).join("\n")
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${meta}</p>
+<h2>Frameworks</h2>
+<div class="frameworks">${frameworks}
+</div>
+<h2>Controls</h2>
+<table>
+<thead><tr>
+<th data-sort="text">ID</th><th data-sort="text">Control</th><th data-sort="number">Severity</th>
+<th data-sort="text">Status</th><th data-sort="number">Failed resources</th><th data-sort="number">Passed resources</th>
+<th data-sort="number">Score</th><th>Remediation</th>
+</tr></thead>
+<tbody>
+${controlRows}
+</tbody>
+</table>
+<h2>Failed resources</h2>
+${resources || "<p>No resource failed any control.</p>"}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`
+}
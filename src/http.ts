@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as stream from 'stream';
+import * as tls from 'tls';
+
+import { AbortController } from 'abort-controller';
+import fetch, { Headers, RequestInit, Response } from 'node-fetch';
+
+import { HttpsProxyAgent } from 'https-proxy-agent';
+
+const ENV_HTTPS_PROXY = [ "HTTPS_PROXY", "https_proxy" ]
+const ENV_HTTP_PROXY = [ "HTTP_PROXY", "http_proxy" ]
+const ENV_NO_PROXY = [ "NO_PROXY", "no_proxy" ]
+const ENV_GITHUB_TOKEN = [ "GITHUB_TOKEN", "GH_TOKEN" ]
+
+const HEADER_AUTHORIZATION = "authorization"
+
+/** Hosts that accept a GitHub token */
+const GITHUB_HOSTS = [ "github.com", "api.github.com" ]
+
+const REDIRECT_STATUSES = [ 301, 302, 303, 307, 308 ]
+const MAX_REDIRECTS = 20
+
+/** Network settings shared by every request the library makes */
+export type KubescapeHttpOptions = {
+
+    /** Proxy address, defaults to `HTTPS_PROXY` / `HTTP_PROXY` */
+    proxy? : string
+
+    /** Comma separated hosts to reach directly, defaults to `NO_PROXY` */
+    noProxy? : string
+
+    /** Path of an extra PEM bundle trusted on top of the system certificates */
+    caFile? : string
+
+    /** Token for GitHub requests, defaults to `GITHUB_TOKEN` / `GH_TOKEN` */
+    githubToken? : string
+}
+
+/** Signal that stops a request, any `AbortController` implementation fits */
+export type KubescapeAbortSignal = RequestInit['signal']
+
+/** Request options of `HttpClient.fetch` */
+export type KubescapeRequestInit = RequestInit & {
+
+    /** Credentials sent only to the requested host, dropped once a redirect leads to another host */
+    hostHeaders? : { [name: string]: string }
+}
+
+const firstEnv = (names : string[]) : string | undefined => {
+    for (let name of names) {
+        if (process.env[name]) return process.env[name]
+    }
+    return undefined
+}
+
+/**
+ * Check if a host is excluded from proxying by a `NO_PROXY` list
+ * @param noProxy comma separated list of hosts, domains suffixes or `*`
+ * @param url the request address
+ */
+export function isNoProxy(noProxy : string | undefined, url : URL) : boolean {
+    if (!noProxy) return false
+
+    const hostname = url.hostname.toLowerCase()
+    const port = url.port || (url.protocol === 'https:' ? "443" : "80")
+
+    return noProxy.split(/[,\s]+/).filter(entry => entry.length > 0).some(entry => {
+        if (entry === "*") return true
+
+        let [ entryHost, entryPort ] = entry.toLowerCase().split(':')
+        if (entryPort && entryPort !== port) return false
+
+        entryHost = entryHost.replace(/^\*?\./, "")
+        return hostname === entryHost || hostname.endsWith(`.${entryHost}`)
+    })
+}
+
+/**
+ * Proxy agent that also trusts the extra certificates for the tunneled connection
+ */
+class CaHttpsProxyAgent extends HttpsProxyAgent<string> {
+    constructor(proxy : string, private _ca : string[] | undefined) {
+        super(proxy, _ca ? { ca: _ca } : undefined)
+    }
+
+    connect(req : http.ClientRequest, opts : any) {
+        return super.connect(req, this._ca ? { ...opts, ca: this._ca } : opts)
+    }
+}
+
+/**
+ * `fetch` honoring the proxy, certificates and token settings
+ */
+export class HttpClient {
+    private _ca : string[] | undefined = undefined
+    private _agents = new Map<string, http.Agent>()
+    /* every request stops when the client is disposed, also those using the node default agents */
+    private _disposed = new AbortController
+
+    constructor(private _options : KubescapeHttpOptions = {}) {
+    }
+
+    get options() : KubescapeHttpOptions {
+        return this._options
+    }
+
+    /**
+     * Get the proxy to use for an address
+     * @param url the request address
+     * @returns the proxy address, or undefined for a direct connection
+     */
+    proxyFor(url : URL) : string | undefined {
+        const noProxy = this._options.noProxy ?? firstEnv(ENV_NO_PROXY)
+        if (isNoProxy(noProxy, url)) return undefined
+
+        if (this._options.proxy) return this._options.proxy
+        return url.protocol === 'https:' ? firstEnv(ENV_HTTPS_PROXY) ?? firstEnv(ENV_HTTP_PROXY) : firstEnv(ENV_HTTP_PROXY)
+    }
+
+    private get ca() : string[] | undefined {
+        if (!this._ca && this._options.caFile) {
+            this._ca = [ ...tls.rootCertificates, fs.readFileSync(this._options.caFile, 'utf8') ]
+        }
+        return this._ca
+    }
+
+    private agentFor(url : URL) : http.Agent | undefined {
+        const proxy = this.proxyFor(url)
+        const key = `${url.protocol}|${proxy ?? ""}`
+
+        if (!this._agents.has(key)) {
+            if (proxy) {
+                this._agents.set(key, new CaHttpsProxyAgent(proxy, this.ca))
+            } else if (url.protocol === 'https:' && this.ca) {
+                this._agents.set(key, new https.Agent({ ca: this.ca }))
+            } else {
+                /* node defaults */
+                return undefined
+            }
+        }
+
+        return this._agents.get(key)
+    }
+
+    /**
+     * Fetch an address
+     * @param url the request address
+     * @param init request options, `agent` is managed by the client
+     * @returns the response
+     */
+    async fetch(url : string, init : KubescapeRequestInit = {}) : Promise<Response> {
+        const { hostHeaders, ...requestInit } = init
+        if (!hostHeaders || Object.keys(hostHeaders).length === 0) {
+            return this.request(url, requestInit)
+        }
+
+        /* node-fetch only drops its own credential headers on redirects, so follow them here */
+        const host = new URL(url).host
+        let location = url
+        let leftHost = false
+        for (let redirects = 0; ; redirects++) {
+            leftHost = leftHost || new URL(location).host !== host
+            const headers = new Headers(requestInit.headers)
+            if (!leftHost) {
+                Object.entries(hostHeaders).forEach(([ name, value ]) => headers.set(name, value))
+            }
+            const response = await this.request(location, { ...requestInit, headers: headers, redirect: 'manual' })
+
+            const next = response.headers.get('location')
+            if (!REDIRECT_STATUSES.includes(response.status) || !next || requestInit.redirect === 'manual') {
+                return response
+            }
+            if (redirects >= MAX_REDIRECTS) {
+                throw new Error(`Too many redirects fetching ${url}`)
+            }
+            response.body?.resume()
+            location = new URL(next, location).toString()
+        }
+    }
+
+    private async request(url : string, init : RequestInit) : Promise<Response> {
+        const headers = new Headers(init.headers)
+
+        const githubToken = this._options.githubToken ?? firstEnv(ENV_GITHUB_TOKEN)
+        if (githubToken && !headers.has(HEADER_AUTHORIZATION) && GITHUB_HOSTS.includes(new URL(url).hostname.toLowerCase())) {
+            headers.set(HEADER_AUTHORIZATION, `Bearer ${githubToken}`)
+        }
+
+        /* the signal also stops reading the body, so it is kept until the body is done */
+        const controller = new AbortController
+        const onAbort = () => controller.abort()
+        const signals = [ init.signal, this._disposed.signal ].filter(signal => signal)
+        signals.forEach(signal => signal.addEventListener('abort', onAbort))
+        if (signals.some(signal => signal.aborted)) controller.abort()
+        const forget = () => signals.forEach(signal => signal.removeEventListener('abort', onAbort))
+
+        try {
+            const response = await fetch(url, {
+                ...init,
+                headers: headers,
+                signal: controller.signal,
+                agent: (parsedUrl : URL) => this.agentFor(parsedUrl)
+            })
+            if (response.body) {
+                stream.finished(response.body, forget)
+            } else {
+                forget()
+            }
+            return response
+        } catch (e) {
+            forget()
+            throw e
+        }
+    }
+
+    /** Stop the running requests and release the pooled connections */
+    dispose() {
+        this._disposed.abort()
+        for (let agent of this._agents.values()) {
+            agent.destroy()
+        }
+        this._agents.clear()
+    }
+}
@@ -3,18 +3,47 @@ import * as fs  from 'fs';
 import * as path from 'path';
 import * as cp from 'child_process';
 import * as stream from 'stream';
-
-import fetch from 'node-fetch';
+import * as crypto from 'crypto';
 
 import { compareVersions } from 'compare-versions';
 import { promisify } from 'util';
 import { AbortController } from 'abort-controller';
 import { v4 as uuidv4 } from 'uuid';
+import which from 'which';
+
+import { archiveExtension, extractFile } from './archive';
+import { HttpClient, KubescapeAbortSignal, KubescapeHttpOptions } from './http';
+import { KubescapeLockOptions, lockDirectory } from './lock';
+import { sleep } from './util';
+import { KubescapeReport, KubescapeReportError, parseReport } from './report';
+import { KubescapeLocatedReport, locateFindings } from './locations';
+import { KubescapeSuppression, applySuppressions, toKubescapeExceptions } from './suppressions';
+import { KubescapeHistory, KubescapeHistoryOptions, KubescapeHistoryTarget } from './history';
+import { KubescapeInstalledVersion, KubescapeVersions } from './versions';
+import { KubescapeReleaseInfo, KubescapeUpdate, KubescapeUpdateCheck, KubescapeUpdateCheckOptions } from './updates';
+
+export { HttpClient, KubescapeAbortSignal, KubescapeHttpOptions } from './http';
+export * from './report';
+export * from './query';
+export * from './locations';
+export * from './sarif';
+export * from './junit';
+export * from './markdown';
+export * from './html';
+export * from './diff';
+export * from './suppressions';
+export * from './policy';
+export * from './history';
+export * from './versions';
+export * from './updates';
 
 const TXT_LATEST = "latest"
 
-const PACKAGE_BASE_URL = "https://api.github.com/repos/armosec/kubescape/releases/latest"
-const PACKAGE_DOWNLOAD_BASE_URL = "https://github.com/armosec/kubescape/releases/download"
+const PACKAGE_BASE_URL = "https://api.github.com/repos/armosec/kubescape"
+const PACKAGE_DOWNLOAD_URL_TEMPLATE = "https://github.com/armosec/kubescape/releases/download/{version}/{asset}"
+const PACKAGE_RELEASE_NOTES_URL_TEMPLATE = "https://github.com/armosec/kubescape/releases/tag/{version}"
+
+const HEADER_AUTHORIZATION = "Authorization"
 
 const COMMAND_SCAN_FRAMEWORK = "scan framework"
 const COMMAND_LIST_FRAMEWORKS = "list frameworks"
@@ -24,11 +53,24 @@ const COMMAND_GET_VERSION = "version"
 const COMMAND_GET_HELP = "help"
 
 const ERROR_KUBESCAPE_NOT_INSTALLED = "Kubescape is not installed!"
+const ERROR_KUBESCAPE_SETUP_FAILED = "Kubescape setup failed"
+const ERROR_CHECKSUM_MISMATCH = "Checksum verification failed"
+const ERROR_CHECKSUM_MISSING = "No checksum available"
+
+const DOWNLOAD_FILE_SUFFIX = ".download"
+const PARTIAL_FILE_SUFFIX = ".partial"
+const BACKUP_FILE_SUFFIX = ".bak"
+
+const CHECKSUM_ASSET_SUFFIX = ".sha256"
+const CHECKSUM_ASSET_COMBINED = "checksums.sha256"
 
 const ENV_SKIP_UPDATE_CHECK = "KUBESCAPE_SKIP_UPDATE_CHECK"
+const ENV_KUBECONFIG = "KUBECONFIG"
 
 const MAX_SCAN_BUFFER = 100 * 1024 * 1024
 
+const KILL_GRACE_PERIOD = 5 * 1000
+
 const extractBetween = (str: string, surround: string) => {
     return str.substring(
         str.indexOf(surround) + 1,
@@ -126,6 +168,92 @@ export type KubescapeUi = {
         work: (progress: (fraction: number) => void) => Promise<T>): Promise<T>;
 }
 
+/** Where kubescape releases are discovered and downloaded from */
+export type KubescapeReleaseSource = {
+
+    /** Base address of a GitHub compatible repository API, e.g.
+     * `https://github.example.com/api/v3/repos/armosec/kubescape`
+     */
+    apiUrl : string
+
+    /** Address of a release asset, `{version}` and `{asset}` are replaced
+     * with the release tag and the asset name
+     */
+    downloadUrlTemplate : string
+
+    /** Token sent with every request to the release source */
+    token? : string
+
+    /** Header carrying the token, defaults to `Authorization: Bearer <token>` */
+    tokenHeader? : string
+}
+
+const DEFAULT_RELEASE_SOURCE : KubescapeReleaseSource = {
+    apiUrl: PACKAGE_BASE_URL,
+    downloadUrlTemplate: PACKAGE_DOWNLOAD_URL_TEMPLATE
+}
+
+/**
+ * Complete a partial release source with the public GitHub defaults
+ * @param source release source given by the user
+ * @returns a release source with all the addresses set
+ */
+function resolveReleaseSource(source : Partial<KubescapeReleaseSource> | undefined) : KubescapeReleaseSource {
+    return {
+        apiUrl: (source?.apiUrl || DEFAULT_RELEASE_SOURCE.apiUrl).replace(/\/+$/, ""),
+        downloadUrlTemplate: source?.downloadUrlTemplate || DEFAULT_RELEASE_SOURCE.downloadUrlTemplate,
+        token: source?.token,
+        tokenHeader: source?.tokenHeader
+    }
+}
+
+/**
+ * Check if an address is served by the release source itself
+ * @param source release source
+ * @param url the request address
+ */
+function isReleaseSourceHost(source : KubescapeReleaseSource, url : string) : boolean {
+    const hostOf = (address : string) : string | undefined => {
+        try {
+            return new URL(address).host
+        } catch {
+            return undefined
+        }
+    }
+
+    const host = hostOf(url)
+    /* the placeholders of the template are never part of its host */
+    const sourceUrls = [ source.apiUrl, source.downloadUrlTemplate.replace(/\{\w+\}/g, "x") ]
+    return host !== undefined && sourceUrls.some(sourceUrl => hostOf(sourceUrl) === host)
+}
+
+/**
+ * Get the headers needed to access a release source
+ * @param source release source
+ * @param url the request address, other hosts get no credentials
+ * @returns request headers
+ */
+function releaseSourceHeaders(source : KubescapeReleaseSource, url : string) : { [name: string]: string } {
+    if (!source.token || !isReleaseSourceHost(source, url)) return {}
+
+    const header = source.tokenHeader || HEADER_AUTHORIZATION
+    return {
+        [header]: header === HEADER_AUTHORIZATION ? `Bearer ${source.token}` : source.token
+    }
+}
+
+/**
+ * Get the download address of a release asset
+ * @param source release source
+ * @param version release tag
+ * @param asset asset name
+ */
+function releaseAssetUrl(source : KubescapeReleaseSource, version : string, asset : string) : string {
+    return source.downloadUrlTemplate
+        .replace(/\{version\}/g, encodeURIComponent(version))
+        .replace(/\{asset\}/g, encodeURIComponent(asset))
+}
+
 function expand(str: string): string {
     let expandedPath = path.normalize(str)
 
@@ -147,6 +275,266 @@ function expand(str: string): string {
 }
 
 
+const makeExecutable = (filePath : string) =>
+    fs.promises.chmod(filePath, fs.constants.S_IRWXU | fs.constants.S_IRWXG | fs.constants.S_IXOTH)
+
+/**
+ * Parse a checksum file in the `sha256sum` format
+ * @param text the content of the checksum file
+ * @param assetName the asset to look up the checksum for
+ * @returns the lower case hex digest, or undefined if the asset is not listed
+ */
+export function parseChecksum(text : string, assetName : string) : string | undefined {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0)
+
+    for (let line of lines) {
+        const match = line.match(/^([a-fA-F0-9]{64})(?:\s+\*?(.+))?$/)
+        if (!match) continue
+
+        const [, digest, name] = match
+        /* a bare digest only makes sense for a single-asset checksum file */
+        if (!name && lines.length === 1) {
+            return digest.toLowerCase()
+        }
+        if (name && path.posix.basename(name.trim()) === assetName) {
+            return digest.toLowerCase()
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Run a request that has to be answered in time, stopped by its timeout or by the caller
+ * @param abort an option to abort the request
+ * @param requestTimeout milliseconds to wait for the complete answer, 0 waits forever
+ * @param request the request, stopped by the given signal
+ */
+async function withRequestTimeout<T>(abort : AbortController | undefined, requestTimeout : number,
+    request : (signal : KubescapeAbortSignal) => Promise<T>) : Promise<T> {
+    const controller = new AbortController
+    const onAbort = () => controller.abort()
+    abort?.signal.addEventListener('abort', onAbort)
+    if (abort?.signal.aborted) controller.abort()
+
+    let timedOut = false
+    const timer = requestTimeout ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+    }, requestTimeout) : undefined
+
+    try {
+        return await request(controller.signal)
+    } catch (e) {
+        throw timedOut ? new Error(`Request timed out after ${requestTimeout} ms`) : e
+    } finally {
+        clearTimeout(timer)
+        abort?.signal.removeEventListener('abort', onAbort)
+    }
+}
+
+/**
+ * Fetch the published checksum of a release asset
+ * @param assetUrl the download address of the asset
+ * @param http client used for the requests
+ * @param headers credentials of the release source, not sent to the hosts it redirects to
+ * @param abort an option to abort the requests
+ * @param requestTimeout milliseconds to wait for each answer, 0 waits forever
+ * @returns the expected sha256 digest, or undefined if none is published
+ */
+async function getPublishedChecksum(assetUrl : string, http : HttpClient,
+    headers : { [name: string]: string } = {}, abort : AbortController | undefined = undefined,
+    requestTimeout : number = 0) : Promise<string | undefined> {
+    const assetName = path.posix.basename(assetUrl)
+    const candidates = [
+        `${assetUrl}${CHECKSUM_ASSET_SUFFIX}`,
+        assetUrl.substring(0, assetUrl.lastIndexOf('/') + 1) + CHECKSUM_ASSET_COMBINED
+    ]
+
+    for (let url of candidates) {
+        try {
+            const text = await withRequestTimeout(abort, requestTimeout, async (signal) => {
+                const res = await http.fetch(url, { hostHeaders: headers, signal: signal })
+                return res.ok ? res.text() : undefined
+            })
+            if (text === undefined) continue
+
+            const digest = parseChecksum(text, assetName)
+            if (digest) return digest
+        } catch {
+            if (abort?.signal.aborted) break
+            continue
+        }
+    }
+
+    return undefined
+}
+
+/** Retry and timeout settings of binary downloads */
+export type KubescapeDownloadOptions = {
+
+    /** How many times a failed download is retried, defaults to 3 */
+    retries? : number
+
+    /** Delay before the first retry in milliseconds, doubled on every retry */
+    retryDelay? : number
+
+    /** Abort a request that receives no data for this many milliseconds */
+    requestTimeout? : number
+
+    /** Give up on the download after this many milliseconds, including retries */
+    totalTimeout? : number
+}
+
+const DEFAULT_DOWNLOAD_OPTIONS : KubescapeDownloadOptions = {
+    retries: 3,
+    retryDelay: 1000,
+    requestTimeout: 30 * 1000,
+    totalTimeout: undefined
+}
+
+/** HTTP statuses worth another attempt */
+const RETRYABLE_STATUSES = [ 408, 425, 429, 500, 502, 503, 504 ]
+
+type DownloadOptions = {
+    /** expected sha256 digest of the download, verified before the file is kept */
+    sha256? : string
+    /** credentials of the release source, not sent to the hosts it redirects to */
+    headers? : { [name: string]: string }
+    /** client used for the requests */
+    http? : HttpClient
+    /** retry and timeout settings */
+    retry? : KubescapeDownloadOptions
+}
+
+/** What a resumed download needs to know about the file it started with */
+type DownloadResume = {
+    /** ETag or Last-Modified of the first answer, a changed file is then sent whole */
+    validator? : string
+}
+
+class DownloadError extends Error {
+    constructor(message : string, readonly retryable : boolean) {
+        super(message)
+    }
+}
+
+
+/**
+ * Hash the content of a file
+ * @param filePath file on the system
+ * @returns a sha256 hash fed with the file content, ready for more data
+ */
+async function hashFile(filePath : string) : Promise<crypto.Hash> {
+    const hash = crypto.createHash('sha256')
+    await promisify(stream.pipeline)(fs.createReadStream(filePath), new stream.Writable({
+        write(chunk, _encoding, callback) {
+            hash.update(chunk)
+            callback()
+        }
+    }))
+    return hash
+}
+
+/**
+ * Download the rest of a file into `partialPath`, resuming from its current size
+ * @param url download address
+ * @param partialPath the file holding what was downloaded so far
+ * @param options network and retry options
+ * @param resume the validator of the file being downloaded, kept between attempts
+ * @param abort an option to abort the process
+ * @param deadline time after which the download is given up, in epoch milliseconds
+ * @param progress report the downloaded fraction
+ * @param ui an external set os graphic fronts for displaying information
+ * @returns the sha256 digest of the complete file
+ */
+async function downloadRemainder(url : string, partialPath : string, options : DownloadOptions, resume : DownloadResume,
+    abort : AbortController | undefined, deadline : number | undefined,
+    progress : (fraction : number) => void, ui : KubescapeUi) : Promise<string> {
+    const { headers = {}, http = new HttpClient, retry = {} } = options
+    const requestTimeout = retry.requestTimeout ?? DEFAULT_DOWNLOAD_OPTIONS.requestTimeout
+
+    let offset = await fs.promises.stat(partialPath).then(stat => stat.size, () => 0)
+
+    /* every attempt gets its own controller so a stalled request can be dropped without cancelling the download */
+    const attempt = new AbortController
+    const onAbort = () => attempt.abort()
+    abort?.signal.addEventListener('abort', onAbort)
+
+    let timedOut = false
+    let timer : NodeJS.Timeout | undefined = undefined
+    const armTimer = () => {
+        clearTimeout(timer)
+        const timeout = Math.min(requestTimeout || Infinity, deadline ? deadline - Date.now() : Infinity)
+        if (timeout !== Infinity) {
+            timer = setTimeout(() => {
+                timedOut = true
+                attempt.abort()
+            }, Math.max(timeout, 0))
+        }
+    }
+
+    try {
+        const requestHeaders : { [name: string]: string } = {}
+        if (offset > 0) {
+            ui.debug(`Resuming download of ${url} from byte ${offset}`)
+            requestHeaders['Range'] = `bytes=${offset}-`
+            if (resume.validator) {
+                /* only the rest of the same file, never the rest of a changed one */
+                requestHeaders['If-Range'] = resume.validator
+            }
+        }
+
+        armTimer()
+        const response = await http.fetch(url, { headers: requestHeaders, hostHeaders: headers, signal: attempt.signal })
+        ui.debug(`Requesting kubescape status: ${response.statusText} (${response.status})`)
+
+        if (response.status === 416) {
+            /* what we have does not fit the remote file anymore */
+            await fs.promises.rm(partialPath, { force: true })
+            throw new DownloadError(`Cannot resume download of ${url}`, true)
+        }
+        if (!response.ok || !response.body) {
+            throw new DownloadError(`Failed to download ${url}: ${response.statusText} (${response.status})`,
+                RETRYABLE_STATUSES.includes(response.status))
+        }
+
+        /* a server ignoring the range, or answering for a changed file, sends all of it */
+        const resumed = offset > 0 && response.status === 206
+        if (!resumed) {
+            offset = 0
+            /* weak ETags cannot be used with If-Range */
+            const etag = response.headers.get('etag')
+            resume.validator = etag && !etag.startsWith("W/") ? etag : response.headers.get('last-modified') ?? undefined
+        }
+
+        const contentRange = response.headers.get('content-range')?.match(/\/(\d+)$/)
+        const size = contentRange ? Number(contentRange[1]) : offset + Number(response.headers.get('content-length'))
+        let read = 0;
+        const hash = resumed ? await hashFile(partialPath) : crypto.createHash('sha256')
+
+        response.body.on('data', (chunk: Buffer) => {
+            armTimer()
+            read += chunk.length
+            hash.update(chunk)
+            progress((offset + read) / size)
+        })
+
+        const out = fs.createWriteStream(partialPath, { flags: resumed ? 'a' : 'w' })
+        await promisify(stream.pipeline)(response.body, out)
+
+        return hash.digest('hex')
+    } catch (e) {
+        if (timedOut) {
+            throw new DownloadError(`Download of ${url} timed out`, true)
+        }
+        throw e
+    } finally {
+        clearTimeout(timer)
+        abort?.signal.removeEventListener('abort', onAbort)
+    }
+}
+
 /**
  * Download a file to the system
  * @param url download address
@@ -155,48 +543,57 @@ function expand(str: string): string {
  * @param abort an option to abort the process
  * @param ui an external set os graphic fronts for displaying information
  * @param executable is the file needs to be executable
+ * @param options verification, network and retry options
  * @returns the full path of the downloaded file
  */
 async function downloadFile(url : string, downloadDir : string,
     fileName : string, abort : AbortController | undefined,
-    ui : KubescapeUi, executable = false) : Promise<string> {
+    ui : KubescapeUi, executable = false, options : DownloadOptions = {}) : Promise<string> {
+    const { sha256, retry = {} } = options
+    const retries = retry.retries ?? DEFAULT_DOWNLOAD_OPTIONS.retries
+    const retryDelay = retry.retryDelay ?? DEFAULT_DOWNLOAD_OPTIONS.retryDelay
+    const totalTimeout = retry.totalTimeout ?? DEFAULT_DOWNLOAD_OPTIONS.totalTimeout
+
     const decodedTargetDir = decodeURIComponent(downloadDir)
     let localPath = path.resolve(decodedTargetDir, fileName)
+    const partialPath = localPath + PARTIAL_FILE_SUFFIX
     try {
         await ui.progress("Downloading Kubescape", abort, async (progress) => {
-            let opts: any = {
-            }
-            if (abort) {
-              opts.signal = abort.signal
-            }
             ui.debug(`Attempt to download kubescape into '${localPath}'`)
             ui.debug(`creating ${downloadDir}`)
             await fs.promises.mkdir(decodedTargetDir, { recursive: true })
 
-            const response = await fetch(url, opts)
-            if (!response.ok || !response.body) {
-                ui.error(`Failed to download ${url}`)
-                throw new Error
+            const deadline = totalTimeout ? Date.now() + totalTimeout : undefined
+            const resume : DownloadResume = {}
+            let digest : string
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    digest = await downloadRemainder(url, partialPath, options, resume, abort, deadline, progress, ui)
+                    break
+                } catch (e) {
+                    /* the partial file is kept so the next attempt picks up where this one stopped */
+                    const delay = retryDelay * Math.pow(2, attempt)
+                    const retryable = !abort?.signal.aborted && (!(e instanceof DownloadError) || e.retryable)
+                    if (!retryable || attempt >= retries || (deadline && Date.now() + delay >= deadline)) {
+                        throw e
+                    }
+                    ui.debug(`Download attempt ${attempt + 1} of ${url} failed, retrying in ${delay}ms. Reason: ${e}`)
+                    await sleep(delay)
+                }
             }
 
-            ui.debug(`Requesting kubescape status: ${response.statusText} (${response.status})`)
-
-            const size = Number(response.headers.get('content-length'))
-            let read = 0;
-
-            response.body.on('data', (chunk: Buffer) => {
-                read += chunk.length
-                progress(read / size)
-            })
-
-            const out = fs.createWriteStream(localPath)
-            await promisify(stream.pipeline)(response.body, out).catch(e => {
-                fs.unlink(localPath, (_) => null)
-                throw e
-            })
+            if (sha256) {
+                if (digest !== sha256.toLowerCase()) {
+                    await fs.promises.rm(partialPath, { force: true })
+                    ui.error(`${ERROR_CHECKSUM_MISMATCH} for ${fileName}: expected ${sha256}, got ${digest}`)
+                    throw new Error(ERROR_CHECKSUM_MISMATCH)
+                }
+                ui.debug(`Verified sha256 checksum of ${fileName}: ${digest}`)
+            }
 
+            await fs.promises.rename(partialPath, localPath)
             if (executable) {
-                await fs.promises.chmod(localPath, fs.constants.S_IRWXU | fs.constants.S_IRWXG | fs.constants.S_IXOTH)
+                await makeExecutable(localPath)
             }
             ui.info(`Successfully downloaded ${fileName} into ${downloadDir}`)
         })
@@ -209,26 +606,89 @@ async function downloadFile(url : string, downloadDir : string,
 }
 
 /**
- * Get the right asset name for each OS
+ * Asset names used by kubescape releases that predate per-OS/arch assets, used when
+ * the release asset list is not available
+ */
+const FALLBACK_ASSET_NAMES: { [platform: string]: { [arch: string]: string } } = {
+    "linux": { "x64": "kubescape-ubuntu-latest", "arm64": "kubescape-arm64-ubuntu-latest" },
+    "darwin": { "x64": "kubescape-macos-latest", "arm64": "kubescape-arm64-macos-latest" },
+    /* windows on arm runs the x64 binary under emulation */
+    "win32": { "x64": "kubescape.exe", "arm64": "kubescape.exe" }
+}
+
+/** Name variants used for each OS in release asset names */
+const ASSET_OS_NAMES: { [platform: string]: string[] } = {
+    "linux": [ "linux", "ubuntu" ],
+    "darwin": [ "darwin", "macos" ],
+    "win32": [ "windows" ]
+}
+
+/** Name variants used for each architecture in release asset names */
+const ASSET_ARCH_NAMES: { [arch: string]: string[] } = {
+    "x64": [ "amd64", "x86_64" ],
+    "arm64": [ "arm64", "aarch64" ]
+}
+
+/** Assets published next to the binaries that are never the binary itself */
+const NON_BINARY_ASSET_EXTENSIONS = [ ".sha256", ".sig", ".pem", ".sbom", ".json", ".txt", ".spdx" ]
+
+type KubescapeAsset = {
+    name : string,
+    url : string
+}
+
+type KubescapeRelease = {
+    tag : string,
+    /** the release notes */
+    url? : string,
+    assets : KubescapeAsset[]
+}
+
+/**
+ * Get the fallback asset name for each OS
  * @returns The right asset name depended on the system
  */
-function chooseKubescapeAsset() : string {
-    let prefix = "kubescape"
-    switch(os.arch()) {
-        case 'arm64':
-            prefix += "-arm64"
-            break
-        default:
-            break
-    }
+function fallbackKubescapeAsset(platform : string = os.platform(), arch : string = os.arch()) : string {
+    const variants = FALLBACK_ASSET_NAMES[platform] ?? FALLBACK_ASSET_NAMES["linux"]
+    return variants[arch] ?? variants["x64"]
+}
 
-    const variants: { [key: string]: string } = {
-        "linux": prefix + "-ubuntu-latest",
-        "darwin": prefix + "-macos-latest",
-        "win32": prefix + ".exe"
-    };
+/**
+ * Choose the kubescape asset matching the system out of a release asset list
+ * @param assetNames the names of the assets published with the release
+ * @returns The right asset name depended on the system, or undefined if none matches
+ */
+export function chooseKubescapeAsset(assetNames : string[],
+    platform : string = os.platform(), arch : string = os.arch()) : string | undefined {
+    const osNames = ASSET_OS_NAMES[platform] ?? []
+    const archNames = ASSET_ARCH_NAMES[arch] ?? [ arch ]
+    const otherArchNames = Object.keys(ASSET_ARCH_NAMES)
+        .filter(key => key !== arch)
+        .reduce((names : string[], key) => names.concat(ASSET_ARCH_NAMES[key]), [])
+
+    let chosen : { name : string, rank : number } | undefined = undefined
+    for (let name of assetNames) {
+        const lowered = name.toLowerCase()
+        if (!lowered.startsWith("kubescape")) continue
+        if (NON_BINARY_ASSET_EXTENSIONS.some(ext => lowered.endsWith(ext))) continue
+
+        const tokens = lowered.replace(/\.(tar\.gz|tgz|zip|exe)$/, "").split(/[-_.]/)
+        const isFallback = name === fallbackKubescapeAsset(platform, arch)
+        if (!isFallback && !tokens.some(token => osNames.includes(token))) continue
+
+        /* assets without an architecture were only ever published for x64 */
+        const hasArch = tokens.some(token => archNames.includes(token))
+        if (!hasArch && (tokens.some(token => otherArchNames.includes(token)) || (arch !== "x64" && !isFallback))) continue
+
+        /* prefer plain binaries over archives, and explicit architectures over implicit ones */
+        const archive = archiveExtension(lowered)
+        const rank = (archive ? (archive === ".zip" ? 4 : 2) : 0) + (hasArch ? 0 : 1)
+        if (!chosen || rank < chosen.rank) {
+            chosen = { name: name, rank: rank }
+        }
+    }
 
-    return variants[os.platform()];
+    return chosen?.name
 }
 
 export function isWindows(): boolean {
@@ -236,59 +696,252 @@ export function isWindows(): boolean {
 }
 
 /**
- * Finds the right latest version we have
+ * Get a release description with its assets
+ * @param version release tag or `latest`
+ * @param source where to look for the release
+ * @param http client used for the requests
+ * @param signal stops the requests
+ * @returns the release tag name and assets
  */
-async function getLatestVersionUrl() : Promise<string> {
-    let res = await fetch(PACKAGE_BASE_URL)
+async function getRelease(version : string, source : KubescapeReleaseSource, http : HttpClient,
+    signal : KubescapeAbortSignal = undefined) : Promise<KubescapeRelease> {
+    const url = version === TXT_LATEST ?
+        `${source.apiUrl}/releases/latest` : `${source.apiUrl}/releases/tags/${encodeURIComponent(version)}`
+    let res = await http.fetch(url, { hostHeaders: releaseSourceHeaders(source, url), signal: signal })
+    if (!res.ok) {
+        throw new Error(`Failed to get kubescape release ${version}: ${res.statusText} (${res.status})`)
+    }
+
     let obj = await res.json()
-    return obj.html_url.replace("/tag/", "/download/")
+    return {
+        tag: obj.tag_name,
+        url: obj.html_url,
+        assets: (obj.assets ?? []).map((asset : any) => ({
+            name: asset.name,
+            url: asset.browser_download_url
+        }))
+    }
 }
 
 
 /**
  * Get the latest version available
- * @returns latest version tag name
+ * @param source where to look for the release
+ * @param http client used for the requests
+ * @param signal stops the requests
+ * @returns latest version tag name and its release notes
  */
-async function getLatestVersion() : Promise<string> {
-    let res = await fetch(PACKAGE_BASE_URL)
-    let obj = await res.json()
-    return obj.tag_name
+async function getLatestVersion(source : KubescapeReleaseSource = DEFAULT_RELEASE_SOURCE,
+    http : HttpClient = new HttpClient, signal : KubescapeAbortSignal = undefined) : Promise<KubescapeReleaseInfo> {
+    const release = await getRelease(TXT_LATEST, source, http, signal)
+    return { version: release.tag, url: release.url }
 }
 
+/**
+ * Finds the download address of the kubescape asset for this system
+ * @param version release tag or `latest`
+ * @param source where to look for the release
+ * @param http client used for the requests
+ * @param ui A set of UI fronts to display information graphically
+ * @param abort an option to abort the lookup
+ * @param requestTimeout milliseconds to wait for the answer, 0 waits forever
+ * @returns download address of the asset
+ */
+async function getKubescapeAssetUrl(version : string, source : KubescapeReleaseSource, http : HttpClient,
+    ui : KubescapeUi, abort : AbortController | undefined = undefined, requestTimeout : number = 0) : Promise<string> {
+    let release : KubescapeRelease
+    try {
+        release = await withRequestTimeout(abort, requestTimeout, signal => getRelease(version, source, http, signal))
+    } catch (e) {
+        if (version === TXT_LATEST) throw e
+
+        ui.debug(`Could not list assets of kubescape ${version}, using fallback asset name. Reason: ${e}`)
+        return releaseAssetUrl(source, version, fallbackKubescapeAsset())
+    }
+
+    let assetName = chooseKubescapeAsset(release.assets.map(asset => asset.name))
+    if (!assetName) {
+        ui.debug(`No kubescape asset of ${release.tag} matches ${os.platform()}/${os.arch()}, using fallback asset name`)
+        assetName = fallbackKubescapeAsset()
+    }
+
+    /* mirrors keep the upstream download addresses in their release data, so build our own */
+    return releaseAssetUrl(source, release.tag, assetName)
+}
+
+
+export type KubescapeInstallOptions = {
+    /** Expected sha256 digest of the binary, overrides the published checksum */
+    sha256? : string
+
+    /** Where kubescape releases are discovered and downloaded from */
+    releaseSource? : Partial<KubescapeReleaseSource>
+
+    /** Proxy, certificates and token settings of the downloads */
+    http? : KubescapeHttpOptions | HttpClient
+
+    /** Retry and timeout settings of the binary download */
+    download? : KubescapeDownloadOptions
+}
 
 /**
  * Install kubescape binary on the system
  * @param kubescapeDir Which directory should kubescape be located at
  * @param ui A set of UI fronts to display information graphically
+ * @param options Release source and verification options
  * @returns true on success
  */
 export async function install(version : string, kubescapeUrl : string | undefined, kubescapeDir : string,
-    ui : KubescapeUi, cancel : AbortController | undefined = undefined) : Promise<boolean> {
+    ui : KubescapeUi, cancel : AbortController | undefined = undefined,
+    options : KubescapeInstallOptions = {}) : Promise<boolean> {
+    const source = resolveReleaseSource(options.releaseSource)
+    const http = options.http instanceof HttpClient ? options.http : new HttpClient(options.http)
+    const requestTimeout = options.download?.requestTimeout ?? DEFAULT_DOWNLOAD_OPTIONS.requestTimeout
+
     /* set download url */
     let binaryUrl: string
     ui.debug(`Customize downloading URL: ${kubescapeUrl}`)
 
-    if (version === TXT_LATEST) {
-        binaryUrl = await getLatestVersionUrl();
-    } else {
-        binaryUrl = `${PACKAGE_DOWNLOAD_BASE_URL}/${version}`
-    }
-
-    binaryUrl += `/${chooseKubescapeAsset()}`
     if (kubescapeUrl) {
         binaryUrl = kubescapeUrl
+    } else {
+        try {
+            binaryUrl = await getKubescapeAssetUrl(version, source, http, ui, cancel, requestTimeout)
+        } catch (e) {
+            ui.error(`Could not find kubescape ${version} download, reason: ${e}`)
+            return false
+        }
     }
     ui.debug(`Kubescape downloading URL: ${binaryUrl}`)
+    /* a custom download address may be anywhere, keep the release source credentials to its own hosts */
+    const headers = releaseSourceHeaders(source, binaryUrl)
+
+    /* never install a binary we could not verify */
+    const checksum = options.sha256 ?? await getPublishedChecksum(binaryUrl, http, headers, cancel, requestTimeout)
+    if (!checksum) {
+        ui.error(`${ERROR_CHECKSUM_MISSING} for ${binaryUrl}, refusing to install it`)
+        return false
+    }
+    ui.debug(`Kubescape expected sha256: ${checksum}`)
 
+    /* download next to the binary so the final rename stays on one file system */
     const kubescapeName = getOsKubescapeFilename();
-    const kubescapeFullPath = await downloadFile(binaryUrl, kubescapeDir, kubescapeName, cancel, ui, !isWindows());
-    if (kubescapeFullPath.length > 0) {
-        return true
+    const archive = archiveExtension(binaryUrl.split(/[?#]/)[0])
+    let downloadedPath = await downloadFile(binaryUrl, kubescapeDir, kubescapeName + DOWNLOAD_FILE_SUFFIX + (archive ?? ""),
+        cancel, ui, !archive && !isWindows(), {
+            sha256: checksum,
+            headers: headers,
+            http: http,
+            retry: options.download
+        });
+    if (downloadedPath.length <= 0) {
+        return false
+    }
+
+    if (archive) {
+        const archivePath = downloadedPath
+        downloadedPath = archivePath.substring(0, archivePath.length - archive.length)
+        try {
+            ui.debug(`Extracting ${kubescapeName} from ${archivePath}`)
+            if (!await extractFile(archivePath, downloadedPath, [ "kubescape", "kubescape.exe" ])) {
+                throw new Error(`no kubescape binary in ${path.basename(binaryUrl)}`)
+            }
+            if (!isWindows()) {
+                await makeExecutable(downloadedPath)
+            }
+        } catch (e) {
+            ui.error(`Could not extract kubescape, reason: ${e}`)
+            await fs.promises.rm(downloadedPath, { force: true })
+            return false
+        } finally {
+            await fs.promises.rm(archivePath, { force: true })
+        }
+    }
+
+    return replaceBinary(downloadedPath, path.resolve(decodeURIComponent(kubescapeDir), kubescapeName), ui)
+}
+
+/**
+ * Put a downloaded binary in place of the current one, keeping the current one as a backup
+ * @param downloadedPath the freshly downloaded binary
+ * @param kubescapePath where kubescape is expected to be
+ * @param ui A set of UI fronts to display information graphically
+ * @returns true if the new binary is in place and working
+ */
+async function replaceBinary(downloadedPath : string, kubescapePath : string, ui : KubescapeUi) : Promise<boolean> {
+    const backupPath = kubescapePath + BACKUP_FILE_SUFFIX
+
+    /* 1. smoke test the download before touching the working binary */
+    if (!await isKubescapeInstalled(downloadedPath)) {
+        ui.error(`Downloaded kubescape binary is not working, keeping the current installation`)
+        await fs.promises.rm(downloadedPath, { force: true })
+        return false
+    }
+
+    /* 2. keep the current binary aside */
+    const hasPrevious = fs.existsSync(kubescapePath)
+    if (hasPrevious) {
+        await fs.promises.rm(backupPath, { force: true })
+        await fs.promises.rename(kubescapePath, backupPath)
+        ui.debug(`Kept previous kubescape binary at ${backupPath}`)
     }
 
+    /* 3. move the new binary in place and make sure it still works */
+    try {
+        await fs.promises.rename(downloadedPath, kubescapePath)
+        if (await isKubescapeInstalled(kubescapePath)) {
+            return true
+        }
+        ui.error(`Installed kubescape binary is not working`)
+    } catch (e) {
+        ui.error(`Could not install kubescape binary into ${kubescapePath}, reason: ${e}`)
+    }
+
+    /* 4. roll back */
+    await fs.promises.rm(downloadedPath, { force: true })
+    if (hasPrevious) {
+        await restoreBackup(kubescapePath, ui)
+    }
     return false
 }
 
+/**
+ * Restore the binary kept aside by the last update
+ * @param kubescapePath where kubescape is expected to be
+ * @param ui A set of UI fronts to display information graphically
+ * @returns true if a backup was restored
+ */
+async function restoreBackup(kubescapePath : string, ui : KubescapeUi) : Promise<boolean> {
+    const backupPath = kubescapePath + BACKUP_FILE_SUFFIX
+    if (!fs.existsSync(backupPath)) {
+        return false
+    }
+
+    try {
+        await fs.promises.rm(kubescapePath, { force: true })
+        await fs.promises.rename(backupPath, kubescapePath)
+        ui.info(`Restored previous kubescape binary from ${backupPath}`)
+        return true
+    } catch (e) {
+        ui.error(`Could not restore kubescape binary from ${backupPath}, reason: ${e}`)
+        return false
+    }
+}
+
+/**
+ * Clean up after an install that failed, keeping partial downloads so the next install resumes them
+ * @param kubescapeDir the directory kubescape was installed into
+ */
+async function removeFailedInstall(kubescapeDir : string) {
+    const names = await fs.promises.readdir(kubescapeDir).catch(() : string[] => [])
+    const leftovers = names.filter(name => !name.endsWith(PARTIAL_FILE_SUFFIX))
+    for (const name of leftovers) {
+        await fs.promises.rm(path.join(kubescapeDir, name), { recursive: true, force: true })
+    }
+    if (leftovers.length === names.length) {
+        await fs.promises.rm(kubescapeDir, { recursive: true, force: true })
+    }
+}
 
 function appendToFrameworks(to : any, from : KubescapeFramework[]) {
     for (let framework of from) {
@@ -328,9 +981,167 @@ function getKubescapePath(basedir: string): KubescapePath {
     }
 }
 
+type KubescapeExecOptions = {
+    env? : { [name: string]: string }
+    /** run in a process group of its own so the whole tree can be killed */
+    detached? : boolean
+    /** kill the process once its output exceeds this size */
+    maxBuffer? : number
+}
+
+type KubescapeExecError = Error & {
+    code? : number | string | null
+    signal? : NodeJS.Signals | null
+    killed? : boolean
+}
+
+/** A kubescape invocation, executed without a shell */
+export type KubescapeCommand = {
+    file : string,
+    args : string[],
+    env : { [name: string]: string }
+}
+
+/**
+ * Split a kubescape sub command such as `scan framework` into arguments
+ * @param command sub command words or arguments
+ */
+const commandArgs = (command : string | string[]) : string[] =>
+    Array.isArray(command) ? command : command.split(' ').filter(arg => arg.length > 0)
+
+/**
+ * Turn `{ flag: value }` pairs into command line flags
+ * @param args flags to pass, `true` values become switches
+ */
+function flagArgs(args : any) : string[] {
+    const result : string[] = []
+    for (const [key, value] of Object.entries(args ?? {})) {
+        if (value === undefined || value === null) continue
+
+        if (typeof value === 'boolean') {
+            result.push(value ? `--${key}` : `--${key}=false`)
+        } else {
+            /* values used to be quoted for the shell - those quotes are not part of the value */
+            result.push(`--${key}`, String(value).replace(/^"(.*)"$/, '$1'))
+        }
+    }
+    return result
+}
+
+/**
+ * Quote an argument for display
+ * @param arg a command line argument
+ */
+const quoteArg = (arg : string) : string =>
+    /^[\w@%+=:,.\/-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`
+
+/**
+ * Render a kubescape invocation the way it would be typed in a shell, for logs only
+ * @param command the invocation to render
+ */
+export function renderKubescapeCommand(command : KubescapeCommand) : string {
+    let rendered = [ `"${command.file}"`, ...command.args.map(quoteArg) ].join(' ')
+
+    for (const [name, value] of Object.entries(command.env)) {
+        if (isWindows()) {
+            rendered = `set "${name}=${value}" & ${rendered}`
+        } else {
+            rendered = `${name}="${value}" ${rendered}`
+        }
+    }
+
+    return rendered
+}
+
+/**
+ * Run kubescape without a shell
+ * @param command the invocation to run
+ * @param options process options, `env` is added to the current environment
+ * @param callback called with the outputs once the process exits
+ * @returns the running process
+ */
+function execKubescape(command : KubescapeCommand, options : KubescapeExecOptions,
+    callback : (err : KubescapeExecError | null, stdout : string, stderr : string) => void) : cp.ChildProcess {
+    /* a process group of its own lets us kill kubescape together with its children */
+    const child = cp.spawn(command.file, command.args, {
+        env: { ...process.env, ...command.env, ...options.env },
+        detached: options.detached && !isWindows()
+    })
+
+    let stdout = ""
+    let stderr = ""
+    let failure : KubescapeExecError | null = null
+    let done = false
+
+    const collect = (output : 'stdout' | 'stderr') => (data : string) => {
+        if (output === 'stdout') stdout += data
+        else stderr += data
+
+        if (options.maxBuffer && stdout.length + stderr.length > options.maxBuffer && !failure) {
+            failure = Object.assign(new Error(`${output} maxBuffer length exceeded`), { killed: true })
+            child.kill()
+        }
+    }
+    child.stdout.setEncoding('utf8').on('data', collect('stdout'))
+    child.stderr.setEncoding('utf8').on('data', collect('stderr'))
+
+    const finish = (err : KubescapeExecError | null) => {
+        if (done) return
+        done = true
+        callback(err, stdout, stderr)
+    }
+    child.on('error', err => finish(err))
+    child.on('close', (code, signal) => {
+        if (failure || code !== 0) {
+            const err : KubescapeExecError = failure ?? new Error(`Command failed: ${renderKubescapeCommand(command)}\n${stderr}`)
+            err.code = code
+            err.signal = signal
+            return finish(err)
+        }
+        finish(null)
+    })
+
+    return child
+}
+
+/**
+ * Kill a process started by `execKubescape` and everything it started
+ * @param child the process to kill
+ */
+function killProcessTree(child : cp.ChildProcess) {
+    if (child.pid === undefined || child.exitCode !== null) return
+
+    try {
+        if (isWindows()) {
+            cp.execFile("taskkill", [ "/pid", String(child.pid), "/T", "/F" ], () => null)
+        } else {
+            process.kill(-child.pid, 'SIGTERM')
+            /* give kubescape a moment to exit cleanly before forcing it */
+            setTimeout(() => {
+                try { process.kill(-child.pid, 'SIGKILL') } catch { /* already gone */ }
+            }, KILL_GRACE_PERIOD).unref()
+        }
+    } catch {
+        child.kill('SIGKILL')
+    }
+}
+
+/**
+ * Find a kubescape binary installed outside of the base directory, by package managers for instance
+ * @param systemBinary the binary to use, `PATH` is searched without it
+ * @returns the binary, undefined when there is none
+ */
+async function findSystemKubescape(systemBinary : string | undefined) : Promise<string | undefined> {
+    if (systemBinary) {
+        const binaryPath = path.resolve(expand(systemBinary))
+        return fs.existsSync(binaryPath) ? binaryPath : undefined
+    }
+    return await which("kubescape", { nothrow: true }) ?? undefined
+}
+
 async function isKubescapeInstalled(kubescapePath: string): Promise<boolean> {
     return new Promise<boolean>(resolve => {
-        cp.exec(`"${kubescapePath}" ${COMMAND_GET_HELP}`, err => {
+        cp.execFile(kubescapePath, commandArgs(COMMAND_GET_HELP), err => {
             /* broken binary */
             if (err) {
                 console.error(err)
@@ -350,11 +1161,109 @@ const withTempDir = async (fn) => {
 		return await fn(dir);
 	}finally {
         
-		fs.promises.rm(dir, {recursive: true});
+		await fs.promises.rm(dir, {recursive: true, force: true});
 	}
 };
 
 
+/** Why a scan was stopped before it completed */
+export type KubescapeCancelReason = "aborted" | "timeout"
+
+/**
+ * Raised when a scan is aborted or runs out of time
+ */
+export class KubescapeCancelledError extends Error {
+    readonly reason : KubescapeCancelReason
+
+    constructor(reason : KubescapeCancelReason) {
+        super(reason === "timeout" ? "Kubescape scan timed out" : "Kubescape scan was cancelled")
+        this.name = "KubescapeCancelledError"
+        this.reason = reason
+    }
+}
+
+/** Controls of a running scan */
+export type KubescapeScanOptions = {
+
+    /** Stop the scan once aborted */
+    abort? : AbortController
+
+    /** Stop the scan after this many milliseconds */
+    timeout? : number
+
+    /** Failures to waive in the results, see `loadSuppressions` */
+    suppressions? : KubescapeSuppression[]
+
+    /** Also pass the suppressions to kubescape with `--exceptions` */
+    suppressionsAsExceptions? : boolean
+
+    /** Save the results in the scan history when it is enabled, true by default */
+    history? : boolean
+}
+
+/**
+ * Write the suppressions of a scan as a kubescape exceptions file next to its report
+ * @param args the scan arguments, gaining `exceptions` unless already set
+ * @param reportFile the report file of the scan
+ * @param options the scan options
+ */
+async function addExceptionsArg(args : any, reportFile : string, options : KubescapeScanOptions) {
+    if (!options.suppressionsAsExceptions || !options.suppressions?.length || args["exceptions"]) return
+
+    const exceptionsFile = path.join(path.dirname(reportFile), `exceptions-${uuidv4()}.json`)
+    await fs.promises.writeFile(exceptionsFile, JSON.stringify(toKubescapeExceptions(options.suppressions)))
+    args["exceptions"] = exceptionsFile
+}
+
+/** Options of a scan of in-memory YAML content */
+export type KubescapeContentScanOptions = KubescapeScanOptions & {
+
+    /** Name reported for the content instead of the temporary file, e.g. the editor document path */
+    fileName? : string
+
+    /** Override the default arguments */
+    overrideArgs? : any
+}
+
+/**
+ * Point the resources read from a temporary copy back to the original content
+ * @param report JSON object with the results of the scan
+ * @param scannedFile the temporary file kubescape scanned
+ * @param fileName the name to report instead, if any
+ */
+function remapReportSources(report : KubescapeReport, scannedFile : string, fileName : string | undefined) {
+    const scannedDir = path.dirname(scannedFile)
+    const original = fileName && path.isAbsolute(fileName) ?
+        { path: path.dirname(fileName), relativePath: path.basename(fileName) } :
+        { path: "", relativePath: fileName ?? "" }
+
+    for (const resource of report?.resources ?? []) {
+        const source = resource.source
+        if (!source) continue
+
+        const sourceFile = path.resolve(source.path || scannedDir, source.relativePath ?? "")
+        if (sourceFile === scannedFile || source.path === scannedFile) {
+            source.path = original.path
+            source.relativePath = original.relativePath
+        }
+    }
+
+    const scanMetadata = report?.metadata?.scanMetadata
+    if (Array.isArray(scanMetadata?.targetNames)) {
+        scanMetadata.targetNames = scanMetadata.targetNames.map((target : string) =>
+            target === scannedFile || target === path.basename(scannedFile) ? fileName ?? "" : target)
+    }
+}
+
+/**
+ * Which kubescape binary to use:
+ * - `managed-only` installs kubescape in `baseDirectory`, ignoring any other binary
+ * - `prefer-system` uses the kubescape of the system when it has the requested version, and installs it otherwise.
+ *   For `latest` that is the latest release known from the update check, any version until there is one
+ * - `system-only` uses the kubescape of the system and never downloads one
+ */
+export type KubescapeBinaryPolicy = "managed-only" | "prefer-system" | "system-only"
+
 export interface IKubescapeConfig {
     version : string
     frameworksDirectory : string | undefined
@@ -362,6 +1271,60 @@ export interface IKubescapeConfig {
     requiredFrameworks : string[] | undefined
     scanFrameworks : string[] | undefined
     binaryUrl: string | undefined
+    /** Expected sha256 of the kubescape binary, used instead of the release checksum asset */
+    binarySha256?: string
+    /** Where kubescape releases are discovered and downloaded from, defaults to GitHub */
+    releaseSource?: Partial<KubescapeReleaseSource>
+    /** Proxy, certificates and token settings of every request, defaults to the environment */
+    http?: KubescapeHttpOptions
+    /** Retry and timeout settings of the binary download */
+    download?: KubescapeDownloadOptions
+    /** Stale detection settings of the lock shared with other processes using `baseDirectory` */
+    lock?: KubescapeLockOptions
+    /** Keep the results of scans under `baseDirectory` with this retention, no history is kept without it */
+    history?: KubescapeHistoryOptions
+    /** Use a kubescape binary of the system or install one, defaults to `managed-only` */
+    binaryPolicy?: KubescapeBinaryPolicy
+    /** The kubescape binary of the system, looked up in `PATH` when not set */
+    systemBinary?: string
+    /** How often to look for newer kubescape releases after setup, or whether to tell about them */
+    updateCheck?: KubescapeUpdateCheckOptions
+}
+
+/** Setup steps a new configuration required */
+export type KubescapeConfigChanges = {
+    /** The kubescape binary was checked and installed again */
+    binary : boolean
+    /** The frameworks were looked up and downloaded again */
+    frameworks : boolean
+    /** The frameworks used by scans were selected again */
+    scanFrameworks : boolean
+}
+
+/**
+ * Check if any of some settings differ between two configurations
+ * @param previous The configuration in use, undefined when there is none yet
+ * @param next The new configuration
+ * @param keys The settings to compare
+ */
+function settingsChanged(previous : IKubescapeConfig | undefined, next : IKubescapeConfig,
+    ...keys : (keyof IKubescapeConfig)[]) : boolean {
+    return !previous || keys.some(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]))
+}
+
+/**
+ * Find the setup steps affected by a configuration change
+ * @param previous The configuration in use
+ * @param next The new configuration
+ */
+function configChanges(previous : IKubescapeConfig, next : IKubescapeConfig) : KubescapeConfigChanges {
+    const changed = (...keys : (keyof IKubescapeConfig)[]) => settingsChanged(previous, next, ...keys)
+
+    const binary = changed("baseDirectory", "version", "binaryUrl", "binarySha256", "releaseSource",
+        "binaryPolicy", "systemBinary")
+    /* frameworks depend on the kubescape version and fall back to its directory */
+    const frameworks = binary || changed("frameworksDirectory", "requiredFrameworks")
+    return { binary: binary, frameworks: frameworks, scanFrameworks: frameworks || changed("scanFrameworks") }
 }
 
 export class KubescapeApi {
@@ -373,6 +1336,17 @@ export class KubescapeApi {
     private _frameworkDir: string | undefined
     private _versionInfo : KubescapeVersion | undefined
     private _frameworks : any | undefined
+    private _releaseSource : KubescapeReleaseSource = { ...DEFAULT_RELEASE_SOURCE }
+    private _http : HttpClient = new HttpClient
+    /* replaced clients, disposed once the work that may still use them is done */
+    private _retiredHttp : HttpClient[] = []
+    private _httpUsers = 0
+    private _history : KubescapeHistory | undefined = undefined
+    private _versions : KubescapeVersions | undefined = undefined
+    private _updateCheck : KubescapeUpdateCheck | undefined = undefined
+    private _configs : IKubescapeConfig | undefined = undefined
+    private _settings : IKubescapeConfig | undefined = undefined
+    private _cancellers = new Set<() => void>()
 
     private constructor() {
         this._isInitialized = false
@@ -382,6 +1356,7 @@ export class KubescapeApi {
         this._frameworks = undefined
     }
 
+    /** The default instance, shared by everyone in the process */
     static get instance() : KubescapeApi {
         if (!this._instance) {
             this._instance = new KubescapeApi
@@ -389,6 +1364,43 @@ export class KubescapeApi {
         return this._instance
     }
 
+    /**
+     * Create and setup an instance independent of `instance` and of any other created one
+     * @param ui Swiss army tools for ui handling
+     * @param configs Kubescape configuration to respect
+     * @param abort An option to abort the setup
+     * @returns The ready instance
+     */
+    static async create(ui : KubescapeUi, configs : IKubescapeConfig,
+        abort : AbortController | undefined = undefined) : Promise<KubescapeApi> {
+        const api = new KubescapeApi
+        if (!await api.setup(ui, configs, abort)) {
+            throw new Error(ERROR_KUBESCAPE_SETUP_FAILED)
+        }
+        return api
+    }
+
+    /** The saved scans, when enabled by the configuration */
+    get history() : KubescapeHistory | undefined {
+        return this._history
+    }
+
+    /** The kubescape versions installed side by side under the base directory */
+    get versions() : KubescapeVersions {
+        if (!this._versions) {
+            throw new Error(ERROR_KUBESCAPE_NOT_INSTALLED)
+        }
+        return this._versions
+    }
+
+    /** The lookups of newer kubescape releases */
+    get updateCheck() : KubescapeUpdateCheck {
+        if (!this._updateCheck) {
+            throw new Error(ERROR_KUBESCAPE_NOT_INSTALLED)
+        }
+        return this._updateCheck
+    }
+
     get isInstalled() : boolean {
         return this._isInstalled
     }
@@ -470,29 +1482,32 @@ export class KubescapeApi {
         return result;
     }
 
-    _buildKubescapeCommand(command: string, kubeconfigPath?: string, args?: any): string {
-        let kubescapeCommand = `"${this.path}" ${command}`
-
+    /**
+     * Build a kubescape invocation
+     * @param command sub command words or arguments
+     * @param kubeconfigPath kubeconfig passed through the environment
+     * @param args flags to pass, `true` values become switches
+     * @returns the file, arguments and environment to run
+     */
+    _buildKubescapeSpec(command: string | string[], kubeconfigPath?: string, args?: any): KubescapeCommand {
+        const env : { [name: string]: string } = {}
         if (kubeconfigPath != null) {
-            if (isWindows()) {
-                kubescapeCommand = `set "KUBECONFIG=${kubeconfigPath}" & ${kubescapeCommand}`
-            }
-            else { 
-                kubescapeCommand = `KUBECONFIG="${kubeconfigPath}" ${kubescapeCommand}`
-            }
+            env[ENV_KUBECONFIG] = kubeconfigPath
         }
 
-        if (args != null) {
-            for (const [key, value] of Object.entries(args)) {
-                if ((typeof value === 'boolean') && value) {
-                    kubescapeCommand = `${kubescapeCommand} --${key}`
-                } else {
-                    kubescapeCommand = `${kubescapeCommand} --${key} ${value}`
-                }
-              }
+        return {
+            file: this.path,
+            args: [ ...commandArgs(command), ...flagArgs(args) ],
+            env: env
         }
+    }
 
-        return kubescapeCommand
+    /**
+     * Render a kubescape invocation for logs, see `_buildKubescapeSpec`
+     * @returns a shell like command line, not meant to be executed
+     */
+    _buildKubescapeCommand(command: string | string[], kubeconfigPath?: string, args?: any): string {
+        return renderKubescapeCommand(this._buildKubescapeSpec(command, kubeconfigPath, args))
     }
 
     private async getKubescapeVersion(kind: string): Promise<KubescapeVersion> {
@@ -503,13 +1518,13 @@ export class KubescapeApi {
         const env : any = {}
         env[ENV_SKIP_UPDATE_CHECK] = "1"
 
-        const cmd = this._buildKubescapeCommand(COMMAND_GET_VERSION);
+        const cmd = this._buildKubescapeSpec(COMMAND_GET_VERSION);
 
         let verInfo = new KubescapeVersion
-        return new Promise<KubescapeVersion>(resolve => {
-            cp.exec(cmd, { env: env }, async (err, stdout, stderr) => {
+        return new Promise<KubescapeVersion>((resolve, reject) => {
+            execKubescape(cmd, { env: env }, async (err, stdout, stderr) => {
                 if (err) {
-                    throw Error(stderr)
+                    return reject(new Error(stderr || err.message))
                 }
 
                 const verRegex = /v\d+\.\d+\.\d+/g
@@ -518,11 +1533,10 @@ export class KubescapeApi {
                 if (match) {
                     verInfo.version = match[0]
 
-                    // const latestVersion = await getLatestVersion()
-                    // verInfo.isLatest = latestVersion === verInfo.version
                     if (kind === "latest") {
-                        const latestVersion = await getLatestVersion()
-                        verInfo.isLatest = latestVersion === verInfo.version
+                        /* no waiting on the network, the update check after setup tells for sure */
+                        const latest = await this.updateCheck.cached()
+                        verInfo.isLatest = !latest || latest.version === verInfo.version
                     } else {
                         verInfo.isLatest = false
                     }
@@ -536,10 +1550,10 @@ export class KubescapeApi {
     private async downloadMissingFrameworks(requiredFrameworks: string[], ui: KubescapeUi): Promise<KubescapeFramework[]> {
         const promises = requiredFrameworks.map(framework =>
             new Promise<KubescapeFramework>((resolve, reject) => {
-                const cmd = this._buildKubescapeCommand(`${COMMAND_DOWNLOAD_FRAMEWORK} ${framework} -o "${this.frameworkDirectory}"`);
-                ui.debug(`downloading missing frameworks. Command: ${cmd}`)
+                const cmd = this._buildKubescapeSpec([ ...commandArgs(COMMAND_DOWNLOAD_FRAMEWORK), framework, "-o", this.frameworkDirectory ]);
+                ui.debug(`downloading missing frameworks. Command: ${renderKubescapeCommand(cmd)}`)
 
-                cp.exec(cmd, (err, stdout, stderr) => {
+                execKubescape(cmd, {}, (err, stdout, stderr) => {
                     ui.debug(`stdout: ${stdout}, stderr: ${stderr}`)
                     if (err) {
                         reject(`Could not download framework ${framework}. Reason:\n${stderr}`)
@@ -566,11 +1580,11 @@ export class KubescapeApi {
 
     private async downloadAllFrameworks(ui: KubescapeUi): Promise<KubescapeFramework[]> {
         /* download all */
-        const cmd = this._buildKubescapeCommand(`${COMMAND_DOWNLOAD_ARTIFACTS} --output "${this.frameworkDirectory}"`);
-        ui.debug(`downloading all frameworks. Command: ${cmd}`)
+        const cmd = this._buildKubescapeSpec(COMMAND_DOWNLOAD_ARTIFACTS, null, { "output": this.frameworkDirectory });
+        ui.debug(`downloading all frameworks. Command: ${renderKubescapeCommand(cmd)}`)
 
         return new Promise<KubescapeFramework[]>(resolve => {
-            cp.exec(cmd, (err, stdout, stderr) => {
+            execKubescape(cmd, {}, (err, stdout, stderr) => {
                 ui.debug(`stdout: ${stdout}, stderr: ${stderr}, version: ${this.version}`)
                 if (err) {
                     throw new Error(`Unable to download artifacts:\n${stderr}`)
@@ -675,10 +1689,10 @@ export class KubescapeApi {
      * @returns A list of available framework files
      */
     async getUninstalledFramework(): Promise<string[]> {
-        const cmd = this._buildKubescapeCommand(COMMAND_LIST_FRAMEWORKS);
+        const cmd = this._buildKubescapeSpec(COMMAND_LIST_FRAMEWORKS);
 
         return new Promise<string[]>(resolve => {
-            cp.exec(cmd, (err, stdout, stderr) => {
+            execKubescape(cmd, {}, (err, stdout, stderr) => {
                 let result: string[] = []
 
                 if (err) {
@@ -728,51 +1742,83 @@ export class KubescapeApi {
      * @param ui Swiss army tools for ui handling
      * @param filePath The file path to scan
      * @param overrideArgs Override the default arguments
+     * @param options Abort handle and timeout of the scan
      * @returns JSON object with the results of the scan
      */
-    async scanYaml(ui : KubescapeUi, filePath: string, overrideArgs?: any) {
-        return await withTempFile(`report-${uuidv4()}.json`, async (file) => {
+    async scanYaml(ui : KubescapeUi, filePath: string, overrideArgs?: any,
+        options : KubescapeScanOptions = {}) : Promise<KubescapeReport> {
+        const report = await withTempFile(`report-${uuidv4()}.json`, async (file) => {
             const args = {
-                "use-artifacts-from": `\"${this.frameworkDirectory}\"`,
+                "use-artifacts-from": this.frameworkDirectory,
                 "format": "json",
                 "format-version": "v2",
-                "output": `\"${file}\"`,
+                "output": file,
                 "keep-local": true,
             }
 
             if (overrideArgs) {
                 Object.assign(args, overrideArgs)
             }
+            await addExceptionsArg(args, file, options)
             
-            const cmd = this._buildScanCommand(`"${path.resolve(filePath)}"`, null, args);
-            ui.debug(`running kubescape scan command: ${cmd}`);
-            ui.info(`running kubescape scan command: ${cmd}`);
+            const cmd = this._buildScanSpec(path.resolve(filePath), null, args);
+            ui.debug(`running kubescape scan command: ${renderKubescapeCommand(cmd)}`);
+            ui.info(`running kubescape scan command: ${renderKubescapeCommand(cmd)}`);
             
-            return await ui.slow<any>("Kubescape scanning", async () => {
-                return new Promise<any>(resolve => {
-                    cp.exec(cmd, async (err, stdout, stderr) => {
-                        ui.debug(`stdout: ${stdout}, stderr: ${stderr}`)
-                        if (err) {
-                            ui.error(stderr)
-                        }
-
-                        var report = JSON.parse(fs.readFileSync(file, 'utf8'));
-                        if (!report) {
-                            ui.error(`not valid response was given. stdout: ${stdout}, stderr: ${stderr}`)
-                            return resolve({})
-                        }
-                        ui.debug('appending controls info to report')
-                        await this.appendControlsInformationToV2Report(report);
-                        return resolve(report)   
-                    })
-                })
+            return await ui.slow<KubescapeReport>("Kubescape scanning", async () => {
+                return this.runScan(ui, cmd, file, {}, options)
             })
         })
+
+        await this.saveToHistory(ui, report, { type: "yaml", target: path.resolve(filePath) }, options)
+        return report
     }
 
-    _buildScanCommand(pathInput?: string, kubeconfigPath?: string, args?: any): string {
+    /**
+     * Scan a yaml file and find where its findings are in the file
+     * @param ui Swiss army tools for ui handling
+     * @param filePath The file path to scan
+     * @param overrideArgs Override the default arguments
+     * @param options Abort handle and timeout of the scan
+     * @returns JSON object with the results of the scan, and the line and column ranges of the findings
+     */
+    async scanYamlWithLocations(ui : KubescapeUi, filePath: string, overrideArgs?: any,
+        options : KubescapeScanOptions = {}) : Promise<KubescapeLocatedReport> {
+        const report = await this.scanYaml(ui, filePath, overrideArgs, options)
+        const yamlText = await fs.promises.readFile(filePath, 'utf8')
+        return { report: report, locations: locateFindings(report, yamlText) }
+    }
+
+    /**
+     * Scan YAML content that is not saved to disk, e.g. an unsaved editor document
+     * @param ui Swiss army tools for ui handling
+     * @param yamlText The YAML content to scan
+     * @param options Reported file name, arguments, abort handle and timeout of the scan
+     * @returns JSON object with the results of the scan, sources pointing at `options.fileName`
+     */
+    async scanContent(ui : KubescapeUi, yamlText: string,
+        options : KubescapeContentScanOptions = {}) : Promise<KubescapeReport> {
+        return await withTempDir(async (dir) => {
+            /* kubescape picks its parser by extension, and the directory is only readable by us */
+            const scannedFile = path.join(dir, `content-${uuidv4()}.yaml`)
+            await fs.promises.writeFile(scannedFile, yamlText, { mode: 0o600 })
+
+            /* saved once the sources point at the original name */
+            const report = await this.scanYaml(ui, scannedFile, options.overrideArgs, { ...options, history: false })
+            remapReportSources(report, scannedFile, options.fileName)
+            await this.saveToHistory(ui, report, { type: "content", target: options.fileName ?? "" }, options)
+            return report
+        })
+    }
+
+    _buildScanSpec(pathInput?: string, kubeconfigPath?: string, args?: any): KubescapeCommand {
         const scanFrameworks = this.frameworksNames.join(",")
-        return this._buildKubescapeCommand(`${COMMAND_SCAN_FRAMEWORK} ${scanFrameworks} ${ pathInput ? pathInput : ''}`, kubeconfigPath, args)
+        const command = [ ...commandArgs(COMMAND_SCAN_FRAMEWORK), scanFrameworks, pathInput ].filter(arg => arg)
+        return this._buildKubescapeSpec(command, kubeconfigPath, args)
+    }
+
+    _buildScanCommand(pathInput?: string, kubeconfigPath?: string, args?: any): string {
+        return renderKubescapeCommand(this._buildScanSpec(pathInput, kubeconfigPath, args))
     }
 
 
@@ -782,15 +1828,17 @@ export class KubescapeApi {
      * @param context The cluster context to use for scanning
      * @param kubeconfigPath The kubeconfig path to use for scanning
      * @param overrideArgs Override the default arguments
+     * @param options Abort handle and timeout of the scan
      * @returns JSON object with the results of the scan
      */
-    async scanCluster(ui: KubescapeUi, context: string, kubeconfigPath?: string, overrideArgs?: any) {
-        return await withTempFile(`report-${uuidv4()}.json`, async (file) => {
+    async scanCluster(ui: KubescapeUi, context: string, kubeconfigPath?: string, overrideArgs?: any,
+        options : KubescapeScanOptions = {}) : Promise<KubescapeReport> {
+        const report = await withTempFile(`report-${uuidv4()}.json`, async (file) => {
             const args = {
-                "use-artifacts-from": `\"${this.frameworkDirectory}\"`,
+                "use-artifacts-from": this.frameworkDirectory,
                 "format": "json",
                 "format-version": "v2",
-                "output": `\"${file}\"`,
+                "output": file,
                 "keep-local": true,
                 "kube-context": context,
             }
@@ -798,34 +1846,115 @@ export class KubescapeApi {
             if (overrideArgs) {
                 Object.assign(args, overrideArgs)
             }
+            await addExceptionsArg(args, file, options)
             
-            const cmd = this._buildScanCommand(null, kubeconfigPath, args);
-            ui.debug(`running kubescape scan command: ${cmd}`)
+            const cmd = this._buildScanSpec(null, kubeconfigPath, args);
+            ui.debug(`running kubescape scan command: ${renderKubescapeCommand(cmd)}`)
     
-            return await ui.slow<any>(`Kubescape scanning cluster ${context}`, async () => {
-                return new Promise<any>(resolve => {
-                    cp.exec(cmd, {maxBuffer : MAX_SCAN_BUFFER },
-                        async (err, stdout, stderr) => {
-                            ui.debug(`stdout: ${stdout}, stderr: ${stderr}`)
-                            if (err) {
-                                ui.error(stderr)
-                            }
-
-                            var report = JSON.parse(fs.readFileSync(file, 'utf8'));
-                            if (!report) {
-                                ui.error(`not valid response was given. stdout: ${stdout}, stderr: ${stderr}`)
-                                return resolve({})
-                            }
-                            ui.debug('appending controls info to report')
-                            await this.appendControlsInformationToV2Report(report);
-                            return resolve(report)
-                        })
-                })
+            return await ui.slow<KubescapeReport>(`Kubescape scanning cluster ${context}`, async () => {
+                return this.runScan(ui, cmd, file, {maxBuffer : MAX_SCAN_BUFFER }, options)
+            })
+        })
+
+        await this.saveToHistory(ui, report, { type: "cluster", target: context, context: context }, options)
+        return report
+    }
+
+    /**
+     * Save the results of a scan in the history, if enabled
+     * @param ui Swiss army tools for ui handling
+     * @param report The results of the scan
+     * @param target What was scanned
+     * @param options The scan options
+     */
+    private async saveToHistory(ui : KubescapeUi, report : KubescapeReport,
+        target : Pick<KubescapeHistoryTarget, "type" | "target" | "context">, options : KubescapeScanOptions) {
+        if (!this._history || options.history === false) return
+
+        try {
+            const entry = await this._history.save(report, {
+                ...target,
+                kubescapeVersion: report.metadata?.scanMetadata?.kubescapeVersion ?? this._versionInfo?.version,
+                frameworks: this.frameworksNames
             })
+            ui.debug(`scan saved in history as ${entry.id}`)
+        } catch (e) {
+            /* the scan itself succeeded */
+            ui.error(`Failed to save the scan in the history: ${e.message}`)
+        }
+    }
+
+    /**
+     * Run a scan command and read the report it writes
+     * @param ui Swiss army tools for ui handling
+     * @param cmd The scan command
+     * @param file The report file the scan writes
+     * @param execOptions Process options
+     * @param options Abort handle and timeout of the scan
+     * @returns JSON object with the results of the scan, rejects with `KubescapeReportError` on a broken report
+     */
+    private runScan(ui : KubescapeUi, cmd : KubescapeCommand, file : string,
+        execOptions : KubescapeExecOptions, options : KubescapeScanOptions) : Promise<KubescapeReport> {
+        return new Promise<KubescapeReport>((resolve, reject) => {
+            const abort = options.abort
+            if (abort?.signal.aborted) {
+                return reject(new KubescapeCancelledError("aborted"))
+            }
+
+            let cancelled : KubescapeCancelReason | undefined = undefined
+            const cancel = (reason : KubescapeCancelReason) => {
+                if (cancelled) return
+                cancelled = reason
+                ui.debug(`stopping kubescape scan: ${reason}`)
+                killProcessTree(child)
+            }
+            const onAbort = () => cancel("aborted")
+            abort?.signal.addEventListener('abort', onAbort)
+            const forget = this.onDispose(onAbort)
+            const timer = options.timeout ? setTimeout(() => cancel("timeout"), options.timeout) : undefined
+
+            const child = execKubescape(cmd, { ...execOptions, detached: true },
+                async (err, stdout, stderr) => {
+                    clearTimeout(timer)
+                    abort?.signal.removeEventListener('abort', onAbort)
+                    forget()
+
+                    /* the report file is removed with its temporary directory once we settle */
+                    if (cancelled) {
+                        return reject(new KubescapeCancelledError(cancelled))
+                    }
+
+                    ui.debug(`stdout: ${stdout}, stderr: ${stderr}`)
+                    if (err) {
+                        ui.error(stderr)
+                    }
+
+                    let report : KubescapeReport
+                    try {
+                        report = parseReport(await fs.promises.readFile(file, 'utf8'))
+                    } catch (e) {
+                        const error = e instanceof KubescapeReportError ? e :
+                            new KubescapeReportError(`the report could not be read (${e.message})`)
+                        ui.error(`not valid response was given. ${error.message}, stdout: ${stdout}, stderr: ${stderr}`)
+                        return reject(error)
+                    }
+                    ui.debug('appending controls info to report')
+                    await this.appendControlsInformationToV2Report(report);
+
+                    if (options.suppressions?.length) {
+                        const suppressed = applySuppressions(report, options.suppressions)
+                        for (const expired of suppressed.expired) {
+                            ui.info(`Suppression of ${expired.controlID} expired on ${expired.expires}: ${expired.reason}`)
+                        }
+                        ui.debug(`suppressed ${suppressed.suppressed.length} failures`)
+                        report = suppressed.report
+                    }
+                    return resolve(report)
+                })
         })
     }
 
-    async appendControlsInformationToV2Report(report: any) {
+    async appendControlsInformationToV2Report(report: KubescapeReport) {
         const controlsMap = await this.getControlsMap()
         for (let [controlId, control] of Object.entries(report.summaryDetails.controls)) {
             if (controlsMap.has(controlId)) {
@@ -849,124 +1978,545 @@ export class KubescapeApi {
 
             const tasksCount = 5
             let completedTasks = 0
+            const step = () => {
+                completedTasks++
+                progress(completedTasks / tasksCount)
+            }
 
             /* 1. Get kubescape path */
             /* ---------------------------------------------------------------*/
-            this._path = getKubescapePath(configs.baseDirectory)
-            completedTasks++
-            progress(completedTasks / tasksCount)
+            this.applySettings(configs)
+            step()
             ui.debug(`Kubescape will be used from ${this.path}`)
 
-            /* 2. Check installation state */
-            /* ---------------------------------------------------------------*/
-            this._isInstalled = await isKubescapeInstalled(this.path)
-            ui.debug(`Kubescape install status: ${this._isInstalled ? "installed" : "missing"}`)
-            let needsUpdate = !this.isInstalled
-            completedTasks++
-            progress(completedTasks / tasksCount)
-
-            /* 3. Query config to choose between version tiers */
-            /* ---------------------------------------------------------------*/
-            ui.debug(`Kubescape requested version: ${configs.version}`)
-
-            if (!needsUpdate) {
-                /* kubescape exists - check version match */
-                // this._versionInfo = await this.getKubescapeVersion()
-                this._versionInfo = await this.getKubescapeVersion(configs.version)
-                if (configs.version !== this.version) {
-                    if (configs.version === TXT_LATEST) {
-                        const latestVersionTag = await getLatestVersion()
-                        needsUpdate = latestVersionTag !== this.version
-                    } else {
-                        needsUpdate = true
-                    }
+            const ready = await this.withSetupLock(ui, configs, abort, async (abort) => {
+                if (!await this.setupBinary(ui, configs, abort, step)) {
+                    return false
                 }
+                await this.setupFrameworks(ui, configs)
+                this.selectScanFrameworks(configs)
+                step()
+                ui.debug(`Loaded frameworks ${this.frameworksNames}`)
+
+                this._configs = configs
+                this._isInitialized = true
+                return true
+            })
+
+            if (ready) {
+                /* in the background, setup never waits for it */
+                this.checkForUpdates(ui).catch(e => ui.debug(`Kubescape update check failed: ${e}`))
             }
-            completedTasks++
-            progress(completedTasks / tasksCount)
+            return ready
+        })
+    }
 
-            /* 4. Install kubescape if needed */
-            /* ---------------------------------------------------------------*/
-            if (needsUpdate) {
-                ui.debug(`Kubescape needs to be updated to version: ${configs.version}`)
-                this._isInstalled = await install(configs.version, configs.binaryUrl, this.directory, ui, abort)
-                if (!this.isInstalled) {
-                    ui.error(ERROR_KUBESCAPE_NOT_INSTALLED)
-                    abort.abort()
-                    return false
+    /**
+     * Look for a kubescape release newer than the one in use, and tell the user about it
+     * @param ui Swiss army tools for ui handling
+     * @returns The newer release, undefined when up to date or when update checks are disabled
+     */
+    async checkForUpdates(ui : KubescapeUi) : Promise<KubescapeUpdate | undefined> {
+        /* a disposed instance neither caches nor tells anything */
+        const controller = new AbortController
+        const forget = this.onDispose(() => controller.abort())
+        try {
+            if (this.updateCheck.isDisabled) {
+                ui.debug("Kubescape update check is disabled")
+                if (this._configs?.version === TXT_LATEST) {
+                    /* the opt-out only silences the notice, the next setup still moves to the latest release */
+                    await this.usingHttp(() => this.updateCheck.latest(undefined, controller.signal))
                 }
-
-                /* Get version again after update */
-                // this._versionInfo = await this.getKubescapeVersion()
-                this._versionInfo = await this.getKubescapeVersion(configs.version)
+                return undefined
             }
-            completedTasks++
-            progress(completedTasks / tasksCount)
-            ui.debug(`Using Kubescape version: ${this.version}`)
 
-            /* Set version if not already set */
-            if (!this._versionInfo) {
-                this._versionInfo = new KubescapeVersion(configs.version, false)
+            const versionInfo = this._versionInfo
+            const update = await this.usingHttp(() => this.updateCheck.check(this.version, undefined, controller.signal))
+            if (controller.signal.aborted) {
+                return undefined
             }
-            
-            ui.debug("initializing frameworks")
-            this._frameworks = {}
-            if (configs.frameworksDirectory) {
-                this._frameworkDir = decodeURIComponent(expand(path.resolve(configs.frameworksDirectory)))
+            versionInfo.isLatest = !update
+            if (update) {
+                ui.showHelp(`Kubescape ${update.latestVersion} is available, you are using ${update.currentVersion}`,
+                    update.url ?? PACKAGE_RELEASE_NOTES_URL_TEMPLATE.replace(/\{version\}/g, update.latestVersion))
             }
+            return update
+        } finally {
+            forget()
+        }
+    }
 
-            if (this._frameworkDir && this._frameworkDir.length > 0) {
-                ui.debug(`getting custom frameworks from specified directory: ${this._frameworkDir}`)
-                try {
-                    await fs.promises.mkdir(this._frameworkDir, { recursive: true })
-                    await fs.promises.access(this._frameworkDir)
-                } catch {
-                    /* Fallback to kubescape directory */
-                    ui.info(`Cannot access ${this._frameworkDir}. Using fallback instead.`)
-                    this._frameworkDir = this.directory
+    /**
+     * Apply a new configuration, redoing only the setup steps affected by the change
+     * @param ui Swiss army tools for ui handling
+     * @param configs Kubescape configuration to respect from now on
+     * @param abort An option to abort the work
+     * @returns What had to be set up again, rejects if kubescape could not be installed
+     */
+    async reconfigure(ui : KubescapeUi, configs : IKubescapeConfig,
+        abort : AbortController | undefined = undefined) : Promise<KubescapeConfigChanges> {
+        if (!this._isInitialized) {
+            if (!await this.setup(ui, configs, abort)) {
+                throw new Error(ERROR_KUBESCAPE_SETUP_FAILED)
+            }
+            return { binary: true, frameworks: true, scanFrameworks: true }
+        }
+
+        const changes = configChanges(this._configs, configs)
+        ui.debug(`Kubescape configuration changes: ${JSON.stringify(changes)}`)
+        this.applySettings(configs)
+
+        if (changes.binary || changes.frameworks) {
+            const succeeded = await this.withSetupLock(ui, configs, abort, async (abort) => {
+                if (changes.binary && !await this.setupBinary(ui, configs, abort, () => null)) {
+                    return false
                 }
-            } else {
-                ui.debug("getting available frameworks from kubescape directory")
-                this._frameworkDir = this.directory
+                await this.setupFrameworks(ui, configs)
+                return true
+            })
+            if (!succeeded) {
+                /* the previous binary may be gone, setup from scratch next time */
+                this._isInitialized = false
+                throw new Error(ERROR_KUBESCAPE_SETUP_FAILED)
             }
-            appendToFrameworks(this._frameworks, await this.getInstalledFrameworks())
+        }
+        if (changes.scanFrameworks) {
+            this.selectScanFrameworks(configs)
+            ui.debug(`Loaded frameworks ${this.frameworksNames}`)
+        }
 
-            /* Get required frameworks */
-            let requiredFrameworks : string[] | undefined = configs.requiredFrameworks
-            if (requiredFrameworks && !requiredFrameworks.includes('all')) {
-                /* Download only required frameworks (filter out availables) */
-                ui.debug("Requiring specific frameworks")
-                requiredFrameworks = requiredFrameworks.filter(framework => {
-                    return !this._frameworks[framework]
-                })
+        this._configs = configs
+        return changes
+    }
+
+    /**
+     * Stop everything the instance is doing: pending setups are aborted, running scans are killed
+     * and connections are closed. The instance needs a new `setup` to be used again.
+     */
+    dispose() {
+        for (const cancel of [ ...this._cancellers ]) {
+            cancel()
+        }
+        this._cancellers.clear()
+        for (const client of this._retiredHttp.splice(0)) {
+            client.dispose()
+        }
+        this._http.dispose()
+
+        this._isInitialized = false
+        this._configs = undefined
+        this._settings = undefined
+        if (KubescapeApi._instance === this) {
+            KubescapeApi._instance = undefined
+        }
+    }
+
+    /**
+     * Keep a way to cancel some work when the instance is disposed
+     * @param cancel Stops the work
+     * @returns Forgets the work once it is done
+     */
+    private onDispose(cancel : () => void) : () => void {
+        this._cancellers.add(cancel)
+        return () => this._cancellers.delete(cancel)
+    }
+
+    /** Take the settings that need no setup work */
+    private applySettings(configs : IKubescapeConfig) {
+        const previous = this._settings
+        const kubescapePath = getKubescapePath(configs.baseDirectory)
+        const baseDirChanged = this._path?.baseDir !== kubescapePath.baseDir
+        if (baseDirChanged) {
+            /* the binary in use is chosen by `setupBinary` */
+            this._path = kubescapePath
+            this._versions = KubescapeVersions.inBaseDirectory(path.dirname(kubescapePath.fullPath), getOsKubescapeFilename())
+        }
+        this._releaseSource = resolveReleaseSource(configs.releaseSource)
+        if (settingsChanged(previous, configs, "http", "releaseSource")) {
+            /* downloads already running finish with the client they started with */
+            this._retiredHttp.push(this._http)
+            this._http = new HttpClient(configs.http)
+            this.disposeRetiredHttp()
+        }
+        this._history = configs.history ?
+            KubescapeHistory.inBaseDirectory(path.dirname(kubescapePath.fullPath), configs.history) : undefined
+        if (baseDirChanged || !this._updateCheck || settingsChanged(previous, configs, "updateCheck")) {
+            /* the lookup always uses the current release source and client */
+            this._updateCheck = KubescapeUpdateCheck.inBaseDirectory(path.dirname(kubescapePath.fullPath),
+                signal => getLatestVersion(this._releaseSource, this._http, signal), configs.updateCheck)
+        }
+        this._settings = configs
+    }
+
+    /**
+     * Run work that may use the http client, replaced clients are kept until no such work is left
+     * @param work The work
+     */
+    private async usingHttp<T>(work : () => Promise<T>) : Promise<T> {
+        this._httpUsers++
+        try {
+            return await work()
+        } finally {
+            this._httpUsers--
+            this.disposeRetiredHttp()
+        }
+    }
+
+    private disposeRetiredHttp() {
+        if (this._httpUsers > 0) return
+        for (const client of this._retiredHttp.splice(0)) {
+            client.dispose()
+        }
+    }
+
+    /**
+     * Run setup work holding the base directory lock, abortable by the caller and by `dispose`
+     * @param ui Swiss army tools for ui handling
+     * @param configs Kubescape configuration to respect
+     * @param abort An option to abort the work
+     * @param work The setup work
+     */
+    private async withSetupLock(ui : KubescapeUi, configs : IKubescapeConfig, abort : AbortController | undefined,
+        work : (abort : AbortController) => Promise<boolean>) : Promise<boolean> {
+        const controller = new AbortController
+        const onAbort = () => controller.abort()
+        abort?.signal.addEventListener('abort', onAbort)
+        if (abort?.signal.aborted) controller.abort()
+        const forget = this.onDispose(onAbort)
+
+        try {
+            /* Other processes sharing the base directory wait until we are done and reuse the result */
+            const release = await lockDirectory(this.directory,
+                work => ui.slow("Waiting for another kubescape installation to finish", work),
+                controller, configs.lock)
+            try {
+                return await this.usingHttp(() => work(controller))
+            } finally {
+                await release()
+            }
+        } finally {
+            forget()
+            abort?.signal.removeEventListener('abort', onAbort)
+        }
+    }
+
+    /**
+     * Make sure the configured kubescape version is installed
+     * @param ui Swiss army tools for ui handling
+     * @param configs Kubescape configuration to respect
+     * @param abort An option to abort the install
+     * @param step Called after each completed step
+     * @returns True, when a usable kubescape is installed
+     */
+    private async setupBinary(ui : KubescapeUi, configs : IKubescapeConfig, abort : AbortController,
+        step : () => void) : Promise<boolean> {
+        const policy = configs.binaryPolicy ?? "managed-only"
+        if (policy !== "managed-only" && await this.setupSystemBinary(ui, configs, policy === "system-only")) {
+            step()
+            step()
+            step()
+            return true
+        }
+        if (policy === "system-only") {
+            ui.error(`No usable kubescape found ${configs.systemBinary ? `at ${configs.systemBinary}` : "in PATH"}, ` +
+                `the system-only policy does not install one`)
+            return false
+        }
 
-                if (requiredFrameworks.length > 0) {
-                    await this.installFrameworks(requiredFrameworks, ui)
+        /* 2. Check installation state */
+        /* ---------------------------------------------------------------*/
+        /* a requested version installed side by side wins, then the active one, then the plain install */
+        const requested = configs.version !== TXT_LATEST && this.versions.isInstalled(configs.version) ?
+            configs.version : await this.versions.active()
+        this.useBinary(requested ? this.versions.binaryPath(requested) : getKubescapePath(configs.baseDirectory).fullPath)
+        this._isInstalled = await isKubescapeInstalled(this.path)
+        if (!this._isInstalled && await restoreBackup(this.path, ui)) {
+            /* a previous update was interrupted - fall back to the kept binary */
+            this._isInstalled = await isKubescapeInstalled(this.path)
+        }
+        ui.debug(`Kubescape install status: ${this._isInstalled ? "installed" : "missing"}`)
+        let needsUpdate = !this.isInstalled
+        step()
+
+        /* 3. Query config to choose between version tiers */
+        /* ---------------------------------------------------------------*/
+        ui.debug(`Kubescape requested version: ${configs.version}`)
+
+        if (!needsUpdate) {
+            /* kubescape exists - check version match */
+            // this._versionInfo = await this.getKubescapeVersion()
+            this._versionInfo = await this.getKubescapeVersion(configs.version)
+            if (configs.version !== this.version) {
+                if (configs.version === TXT_LATEST) {
+                    /* a stale answer keeps the installed version, the update check after setup refreshes it */
+                    const latest = await this.updateCheck.cached()
+                    needsUpdate = latest !== undefined && latest.version !== this.version
+                } else {
+                    needsUpdate = true
                 }
-            } else {
-                /* Download all artifacts including all frameworks */
-                ui.debug("Requiring all the available frameworks")
-                const allFrameworks = await this.downloadAllFrameworks(ui)
-                appendToFrameworks(this._frameworks, allFrameworks)
             }
-            ui.debug(`Required frameworks: ${this.frameworks.map(f => f.name).join(' ')}`)
+        }
+        step()
+
+        /* 4. Install kubescape if needed */
+        /* ---------------------------------------------------------------*/
+        if (needsUpdate) {
+            ui.debug(`Kubescape needs to be updated to version: ${configs.version}`)
+            const installed = await this.installSideBySide(ui, configs.version, configs, abort)
+            if (installed) {
+                await this.versions.activate(installed)
+                this.useBinary(this.versions.binaryPath(installed))
+            }
+            const updated = installed !== undefined
+            this._isInstalled = updated || await isKubescapeInstalled(this.path)
+            if (!this.isInstalled) {
+                ui.error(ERROR_KUBESCAPE_NOT_INSTALLED)
+                abort?.abort()
+                return false
+            }
+            if (!updated) {
+                ui.error(`Could not update kubescape to ${configs.version}, using the current installation`)
+            }
+
+            /* Get version again after update */
+            // this._versionInfo = await this.getKubescapeVersion()
+            this._versionInfo = await this.getKubescapeVersion(configs.version)
+        }
+        step()
+        ui.debug(`Using Kubescape version: ${this.version}`)
+
+        /* Set version if not already set */
+        if (!this._versionInfo) {
+            this._versionInfo = new KubescapeVersion(configs.version, false)
+        }
+        if (!needsUpdate && requested) {
+            await this.versions.activate(requested)
+        }
+        return true
+    }
+
+    /**
+     * Use the kubescape binary of the system. For `latest` it has to be the cached latest release,
+     * any version passes until the update check found one.
+     * @param ui Swiss army tools for ui handling
+     * @param configs Kubescape configuration to respect
+     * @param required Use the binary even if it is not the requested version
+     * @returns True, when the binary of the system is used
+     */
+    private async setupSystemBinary(ui : KubescapeUi, configs : IKubescapeConfig, required : boolean) : Promise<boolean> {
+        const binaryPath = await findSystemKubescape(configs.systemBinary)
+        if (!binaryPath || !await isKubescapeInstalled(binaryPath)) {
+            ui.debug(`No usable kubescape found ${configs.systemBinary ? `at ${configs.systemBinary}` : "in PATH"}`)
+            return false
+        }
+
+        this.useBinary(binaryPath)
+        this._isInstalled = true
+        try {
+            this._versionInfo = await this.getKubescapeVersion(configs.version)
+        } catch (e) {
+            ui.debug(`Kubescape at ${binaryPath} does not tell its version: ${e}`)
+            this._isInstalled = false
+            this._versionInfo = undefined
+            return false
+        }
+        /* no waiting on the network, like the managed binary */
+        const requested = configs.version === TXT_LATEST ? (await this.updateCheck.cached())?.version : configs.version
+        if (requested !== undefined && requested !== this.version) {
+            if (!required) {
+                ui.debug(`Kubescape ${this.version} at ${binaryPath} is not the requested version ${requested}`)
+                this._isInstalled = false
+                this._versionInfo = undefined
+                return false
+            }
+            ui.info(`Using kubescape ${this.version} at ${binaryPath}, instead of the requested version ${requested}`)
+        }
+        ui.debug(`Using Kubescape version: ${this.version} at ${binaryPath}`)
+        return true
+    }
 
-            /* Get scan frameworks */
-            let scanFrameworks : string[] = configs.scanFrameworks
-            if (!scanFrameworks || scanFrameworks.includes('all')) {
-                /* Use all the available frameworks */
-                scanFrameworks = Object.keys(this._frameworks)
+    /** Run scans with another kubescape binary */
+    private useBinary(binaryPath : string) {
+        this._path = { ...this._path, fullPath: binaryPath }
+    }
+
+    /**
+     * Download a kubescape version next to the installed ones, leaving the binary in use alone
+     * @param ui Swiss army tools for ui handling
+     * @param version release tag or `latest`
+     * @param configs Kubescape configuration to respect
+     * @param abort An option to abort the install
+     * @returns The installed release tag, undefined when the install failed
+     */
+    private async installSideBySide(ui : KubescapeUi, version : string, configs : IKubescapeConfig,
+        abort : AbortController) : Promise<string | undefined> {
+        let tag = version
+        if (version === TXT_LATEST) {
+            try {
+                const requestTimeout = configs.download?.requestTimeout ?? DEFAULT_DOWNLOAD_OPTIONS.requestTimeout
+                tag = (await withRequestTimeout(abort, requestTimeout,
+                    signal => this.updateCheck.latest(undefined, signal))).version
+            } catch (e) {
+                ui.error(`Could not find the latest kubescape version, reason: ${e}`)
+                return undefined
             }
-            for (let frameworkName of scanFrameworks) {
-                this._frameworks[frameworkName].isInstalled = true
+        }
+
+        if (this.versions.isInstalled(tag) && await isKubescapeInstalled(this.versions.binaryPath(tag))) {
+            ui.debug(`Kubescape ${tag} is already installed`)
+            await this.versions.markUsed(tag)
+            return tag
+        }
+
+        /* the configured download and checksum only describe the configured version */
+        const configured = version === configs.version
+        const directory = this.versions.versionDirectory(tag)
+        await fs.promises.mkdir(directory, { recursive: true })
+        const installed = await install(tag, configured ? configs.binaryUrl : undefined, directory, ui, abort, {
+            sha256: configured ? configs.binarySha256 : undefined,
+            releaseSource: configs.releaseSource,
+            http: this._http,
+            download: configs.download
+        })
+        if (!installed) {
+            if (!this.versions.isInstalled(tag)) {
+                await removeFailedInstall(directory)
             }
+            return undefined
+        }
 
-            completedTasks++
-            progress(completedTasks / tasksCount)
-            ui.debug(`Loaded frameworks ${this.frameworksNames}`)
+        await this.versions.markUsed(tag)
+        return tag
+    }
 
-            this._isInitialized = true
-            return true
+    /**
+     * List the kubescape versions installed side by side
+     * @returns The versions, newest first
+     */
+    async listVersions() : Promise<KubescapeInstalledVersion[]> {
+        return this.versions.list()
+    }
+
+    /**
+     * Install a kubescape version next to the installed ones without using it
+     * @param ui Swiss army tools for ui handling
+     * @param version release tag or `latest`
+     * @param abort An option to abort the install
+     * @returns The installed release tag, rejects if it could not be installed
+     */
+    async installVersion(ui : KubescapeUi, version : string,
+        abort : AbortController | undefined = undefined) : Promise<string> {
+        if (!this._configs) {
+            throw new Error(ERROR_KUBESCAPE_NOT_INSTALLED)
+        }
+
+        const configs = this._configs
+        let installed : string | undefined
+        await this.withSetupLock(ui, configs, abort, async (abort) => {
+            installed = await this.installSideBySide(ui, version, configs, abort)
+            return installed !== undefined
         })
+        if (!installed) {
+            throw new Error(`Could not install kubescape ${version}`)
+        }
+        return installed
+    }
+
+    /**
+     * Switch to a kubescape version installed side by side, for this instance and the next setups
+     * that do not ask for an installed version
+     * @param ui Swiss army tools for ui handling
+     * @param version The release tag
+     */
+    async activateVersion(ui : KubescapeUi, version : string) {
+        const binaryPath = this.versions.binaryPath(version)
+        if (!this.versions.isInstalled(version) || !await isKubescapeInstalled(binaryPath)) {
+            throw new Error(`Kubescape ${version} is not installed`)
+        }
+
+        await this.versions.activate(version)
+        this.useBinary(binaryPath)
+        this._isInstalled = true
+        this._versionInfo = await this.getKubescapeVersion(version)
+        ui.debug(`Using Kubescape version: ${this.version}`)
+    }
+
+    /**
+     * Delete the kubescape versions installed side by side and not used for a while,
+     * the active version and the one in use are kept
+     * @param maxUnusedDays How many days a version may stay unused
+     * @returns The deleted versions
+     */
+    async pruneVersions(maxUnusedDays : number) : Promise<KubescapeInstalledVersion[]> {
+        const inUse = (await this.versions.list()).filter(installed => installed.path === this._path?.fullPath)
+        return this.versions.prune(maxUnusedDays, new Date, inUse.map(installed => installed.version))
+    }
+
+    /**
+     * Find the installed frameworks and download the missing required ones
+     * @param ui Swiss army tools for ui handling
+     * @param configs Kubescape configuration to respect
+     */
+    private async setupFrameworks(ui : KubescapeUi, configs : IKubescapeConfig) {
+        ui.debug("initializing frameworks")
+        this._frameworks = {}
+        this._frameworkDir = undefined
+        if (configs.frameworksDirectory) {
+            this._frameworkDir = decodeURIComponent(expand(path.resolve(configs.frameworksDirectory)))
+        }
+
+        if (this._frameworkDir && this._frameworkDir.length > 0) {
+            ui.debug(`getting custom frameworks from specified directory: ${this._frameworkDir}`)
+            try {
+                await fs.promises.mkdir(this._frameworkDir, { recursive: true })
+                await fs.promises.access(this._frameworkDir)
+            } catch {
+                /* Fallback to kubescape directory */
+                ui.info(`Cannot access ${this._frameworkDir}. Using fallback instead.`)
+                this._frameworkDir = this.directory
+            }
+        } else {
+            ui.debug("getting available frameworks from kubescape directory")
+            this._frameworkDir = this.directory
+        }
+        appendToFrameworks(this._frameworks, await this.getInstalledFrameworks())
+
+        /* Get required frameworks */
+        let requiredFrameworks : string[] | undefined = configs.requiredFrameworks
+        if (requiredFrameworks && !requiredFrameworks.includes('all')) {
+            /* Download only required frameworks (filter out availables) */
+            ui.debug("Requiring specific frameworks")
+            requiredFrameworks = requiredFrameworks.filter(framework => {
+                return !this._frameworks[framework]
+            })
+
+            if (requiredFrameworks.length > 0) {
+                await this.installFrameworks(requiredFrameworks, ui)
+            }
+        } else {
+            /* Download all artifacts including all frameworks */
+            ui.debug("Requiring all the available frameworks")
+            const allFrameworks = await this.downloadAllFrameworks(ui)
+            appendToFrameworks(this._frameworks, allFrameworks)
+        }
+        ui.debug(`Required frameworks: ${this.frameworks.map(f => f.name).join(' ')}`)
+    }
+
+    /**
+     * Mark the frameworks used by scans
+     * @param configs Kubescape configuration to respect
+     */
+    private selectScanFrameworks(configs : IKubescapeConfig) {
+        let scanFrameworks : string[] = configs.scanFrameworks
+        if (!scanFrameworks || scanFrameworks.includes('all')) {
+            /* Use all the available frameworks */
+            scanFrameworks = Object.keys(this._frameworks)
+        }
+        for (let framework of Object.values<any>(this._frameworks)) {
+            framework.isInstalled = false
+        }
+        for (let frameworkName of scanFrameworks) {
+            this._frameworks[frameworkName].isInstalled = true
+        }
     }
 }
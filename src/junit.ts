@@ -0,0 +1,82 @@
+import { KubescapeReport } from './report';
+import { KubescapeFinding, KubescapeReportQuery } from './query';
+
+const SUITES_NAME = "kubescape"
+
+/** Statuses reported as skipped tests, everything else but failures passes */
+const SKIPPED_STATUSES = [ "skipped", "excluded", "irrelevant", "unknown" ]
+
+const escapeXml = (text : string) : string => text
+    /* characters XML 1.0 does not allow at all */
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+
+const attributes = (values : { [name: string]: string | number }) : string =>
+    Object.entries(values).map(([ name, value ]) => ` ${name}="${escapeXml(String(value))}"`).join("")
+
+function testCase(suiteName : string, finding : KubescapeFinding) : string {
+    const ref = finding.resource
+    const resourceName = [ ref.namespace, ref.kind, ref.name ].filter(part => part).join('/')
+    const open = `    <testcase${attributes({
+        classname: `${suiteName}.${finding.controlID}`,
+        name: `${finding.controlID} ${finding.controlName} - ${resourceName}`
+    })}`
+
+    if (finding.status === "failed") {
+        const details = [
+            finding.remediation,
+            ...finding.paths.map(p => p.failedPath ?? p.fixPath?.path ?? p.reviewPath ?? p.deletePath).filter(p => p)
+        ].filter(line => line).join("\n")
+
+        return `${open}>\n` +
+            `      <failure${attributes({ message: `${finding.controlName} failed for ${resourceName}`, type: finding.severity })}>` +
+            `${escapeXml(details)}</failure>\n` +
+            `    </testcase>`
+    }
+    if (SKIPPED_STATUSES.includes(finding.status)) {
+        return `${open}>\n      <skipped/>\n    </testcase>`
+    }
+    return `${open}/>`
+}
+
+function testSuite(name : string, findings : KubescapeFinding[]) : string {
+    const failures = findings.filter(f => f.status === "failed").length
+    const skipped = findings.filter(f => SKIPPED_STATUSES.includes(f.status)).length
+
+    return [
+        `  <testsuite${attributes({ name: name, tests: findings.length, failures: failures, errors: 0, skipped: skipped })}>`,
+        ...findings.map(finding => testCase(name, finding)),
+        `  </testsuite>`
+    ].join("\n")
+}
+
+/**
+ * Render the results of a scan as JUnit XML
+ * @param report the results of the scan
+ * @returns a test suite per framework, with a test case per control and resource
+ */
+export function toJUnit(report : KubescapeReport) : string {
+    const query = new KubescapeReportQuery(report)
+
+    const suites = report.summaryDetails.frameworks.length > 0 ?
+        report.summaryDetails.frameworks.map(framework => ({
+            name: framework.name,
+            findings: query.findings({ framework: framework.name })
+        })) :
+        [ { name: SUITES_NAME, findings: query.findings() } ]
+
+    const tests = suites.reduce((count, suite) => count + suite.findings.length, 0)
+    const failures = suites.reduce((count, suite) => count + suite.findings.filter(f => f.status === "failed").length, 0)
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites${attributes({ name: SUITES_NAME, tests: tests, failures: failures, errors: 0 })}>`,
+        ...suites.map(suite => testSuite(suite.name, suite.findings)),
+        `</testsuites>`,
+        ""
+    ].join("\n")
+}
@@ -0,0 +1,225 @@
+import { Document, LineCounter, Node, Pair, isMap, isScalar, isSeq, parseAllDocuments } from 'yaml';
+
+import { KubescapeReport, KubescapeStatus } from './report';
+import { KubescapeReportQuery, KubescapeResourceRef } from './query';
+
+/** Position in a text file, lines and columns start at 1 */
+export type KubescapePosition = {
+    line : number,
+    column : number
+}
+
+export type KubescapeRange = {
+    start : KubescapePosition,
+    end : KubescapePosition
+}
+
+export type KubescapePathType = "failed" | "fix" | "review" | "delete"
+
+/** Where a failed, fix, review or delete path of a control points in the file */
+export type KubescapeFindingLocation = {
+    controlID : string,
+    status : KubescapeStatus,
+    type : KubescapePathType,
+    path : string,
+    /** the value suggested by a fix path */
+    fixValue? : string,
+    range : KubescapeRange,
+    /** false when the path is missing from the file, e.g. a fix adding a field, and `range` is its closest parent */
+    exact : boolean
+}
+
+/** Where a scanned resource is in the file, with the locations of its findings */
+export type KubescapeResourceLocation = {
+    resourceID : string,
+    resource : KubescapeResourceRef,
+    /** index of the YAML document holding the resource */
+    documentIndex : number,
+    range : KubescapeRange,
+    findings : KubescapeFindingLocation[]
+}
+
+/** A report along with the locations of its findings in the scanned file */
+export type KubescapeLocatedReport = {
+    report : KubescapeReport,
+    locations : KubescapeResourceLocation[]
+}
+
+type PathSegment = string | number
+
+type ResourceNode = {
+    documentIndex : number,
+    node : Node,
+    ref : KubescapeResourceRef
+}
+
+/**
+ * Split a kubescape object path into keys and indexes
+ * @param objectPath a path like `spec.containers[0].securityContext` or `metadata.labels['app.kubernetes.io/name']`
+ */
+export function parseObjectPath(objectPath : string) : PathSegment[] {
+    const segments : PathSegment[] = []
+    const pattern = /([^.[\]]+)|\[(\d+)\]|\[(['"]?)(.*?)\3\]/g
+
+    let match : RegExpExecArray | null
+    while ((match = pattern.exec(objectPath)) !== null) {
+        if (match[1] !== undefined) {
+            segments.push(match[1])
+        } else if (match[2] !== undefined) {
+            segments.push(parseInt(match[2]))
+        } else {
+            segments.push(match[4])
+        }
+    }
+    return segments
+}
+
+const scalarValue = (node : any, key : string) : string | undefined => {
+    const value = isMap(node) ? node.get(key, true) : undefined
+    return isScalar(value) && value.value !== null ? String(value.value) : undefined
+}
+
+/** Get the kubernetes objects of the documents, `List` items count as objects of their own */
+function resourceNodes(documents : Document.Parsed[]) : ResourceNode[] {
+    const nodes : ResourceNode[] = []
+    const add = (documentIndex : number, node : any) => {
+        if (!isMap(node)) return
+        const metadata = node.get("metadata", true)
+        nodes.push({
+            documentIndex: documentIndex,
+            node: node,
+            ref: {
+                apiVersion: scalarValue(node, "apiVersion"),
+                kind: scalarValue(node, "kind") ?? "",
+                name: scalarValue(metadata, "name") ?? "",
+                namespace: scalarValue(metadata, "namespace")
+            }
+        })
+    }
+
+    documents.forEach((document, i) => {
+        const contents = document.contents
+        const items = isMap(contents) && scalarValue(contents, "kind")?.endsWith("List") ?
+            contents.get("items", true) : undefined
+        if (isSeq(items)) {
+            items.items.forEach(item => add(i, item))
+        } else {
+            add(i, contents)
+        }
+    })
+    return nodes
+}
+
+/** Find the object of a resource, preferring an exact namespace match */
+function findResourceNode(nodes : ResourceNode[], ref : KubescapeResourceRef) : ResourceNode | undefined {
+    const candidates = nodes.filter(node =>
+        node.ref.kind.toLowerCase() === ref.kind.toLowerCase() && node.ref.name === ref.name)
+
+    /* files usually leave the namespace out while kubescape may fill in the default one */
+    return candidates.find(node => (node.ref.namespace ?? "") === (ref.namespace ?? "")) ??
+        (candidates.length === 1 ? candidates[0] : undefined)
+}
+
+/**
+ * Walk a path from a node
+ * @returns the deepest pair or item reached, and whether the whole path was found
+ */
+function resolvePath(root : Node, segments : PathSegment[]) : { pair? : Pair, node : Node, exact : boolean } {
+    let node : any = root
+    let pair : Pair | undefined = undefined
+
+    for (const segment of segments) {
+        if (isMap(node)) {
+            const next = node.items.find(item => isScalar(item.key) ? String(item.key.value) === String(segment) : false)
+            if (!next || !next.value) return { pair: pair, node: node, exact: false }
+            pair = next
+            node = next.value
+        } else if (isSeq(node) && typeof segment === 'number' && segment < node.items.length) {
+            pair = undefined
+            node = node.items[segment]
+        } else {
+            return { pair: pair, node: node, exact: false }
+        }
+    }
+    return { pair: pair, node: node, exact: true }
+}
+
+/**
+ * Map findings of a scan back to their position in the scanned YAML
+ * @param report the results of scanning the YAML
+ * @param yamlText the scanned YAML content, possibly holding several documents
+ * @returns the resources of the report found in the content
+ */
+export function locateFindings(report : KubescapeReport, yamlText : string) : KubescapeResourceLocation[] {
+    const lineCounter = new LineCounter()
+    const documents = parseAllDocuments(yamlText, { lineCounter: lineCounter })
+    const nodes = resourceNodes(documents)
+
+    const position = (offset : number) : KubescapePosition => {
+        const linePos = lineCounter.linePos(offset)
+        return { line: linePos.line, column: linePos.col }
+    }
+    const range = (start : number, end : number) : KubescapeRange => {
+        /* block nodes end after their trailing line break */
+        while (end > start && /\s/.test(yamlText[end - 1])) end--
+        return { start: position(start), end: position(end) }
+    }
+
+    const locations : KubescapeResourceLocation[] = []
+    for (const resource of new KubescapeReportQuery(report).byResource()) {
+        const resourceNode = findResourceNode(nodes, resource.resource)
+        if (!resourceNode) continue
+
+        const root = resourceNode.node
+        const findings : KubescapeFindingLocation[] = []
+        for (const finding of resource.findings) {
+            const paths : [KubescapePathType, string, string | undefined][] = []
+            for (const rulePath of finding.paths) {
+                if (rulePath.failedPath) paths.push([ "failed", rulePath.failedPath, undefined ])
+                if (rulePath.fixPath?.path) paths.push([ "fix", rulePath.fixPath.path, rulePath.fixPath.value ])
+                if (rulePath.reviewPath) paths.push([ "review", rulePath.reviewPath, undefined ])
+                if (rulePath.deletePath) paths.push([ "delete", rulePath.deletePath, undefined ])
+            }
+
+            for (const [ type, objectPath, fixValue ] of paths) {
+                const resolved = resolvePath(root, parseObjectPath(objectPath))
+                let start : number, end : number
+                if (resolved.exact && resolved.pair) {
+                    /* the whole `key: value` */
+                    start = (resolved.pair.key as Node).range[0]
+                    end = resolved.node.range[1]
+                } else if (resolved.exact) {
+                    start = resolved.node.range[0]
+                    end = resolved.node.range[1]
+                } else if (resolved.pair) {
+                    /* only the key of the closest parent, not its whole block */
+                    [ start, end ] = (resolved.pair.key as Node).range
+                } else {
+                    /* a list item or the resource itself, point at its first key */
+                    const first = isMap(resolved.node) ? resolved.node.items[0]?.key as Node : undefined
+                    start = (first ?? resolved.node).range[0]
+                    end = (first ?? resolved.node).range[1]
+                }
+
+                findings.push({
+                    controlID: finding.controlID,
+                    status: finding.status,
+                    type: type,
+                    path: objectPath,
+                    fixValue: fixValue,
+                    range: range(start, end),
+                    exact: resolved.exact
+                })
+            }
+        }
+
+        locations.push({
+            resourceID: resource.resourceID,
+            resource: resource.resource,
+            documentIndex: resourceNode.documentIndex,
+            range: range(root.range[0], root.range[1]),
+            findings: findings
+        })
+    }
+    return locations
+}
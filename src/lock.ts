@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { sleep } from './util';
+
+const LOCK_FILE_NAME = ".kubescape.lock"
+const TAKEOVER_FILE_SUFFIX = ".takeover"
+
+const ERROR_LOCK_ABORTED = "Waiting for the kubescape install lock was aborted"
+
+/** Settings of the install lock */
+export type KubescapeLockOptions = {
+
+    /** A lock not refreshed for this many milliseconds is considered abandoned */
+    staleTimeout? : number
+
+    /** How often a waiting process checks the lock again, in milliseconds */
+    pollInterval? : number
+}
+
+const DEFAULT_LOCK_OPTIONS : KubescapeLockOptions = {
+    staleTimeout: 2 * 60 * 1000,
+    pollInterval: 500
+}
+
+type LockOwner = {
+    pid : number,
+    hostname : string,
+    createdAt : string
+}
+
+/** Release a held lock */
+export type KubescapeLockRelease = () => Promise<void>
+
+function isProcessAlive(pid : number) : boolean {
+    try {
+        process.kill(pid, 0)
+        return true
+    } catch (e) {
+        /* the process exists but belongs to someone else */
+        return e.code === 'EPERM'
+    }
+}
+
+/**
+ * Check if a lock file was left behind by a process that is gone
+ * @param lockPath the lock file
+ * @param staleTimeout age after which an unrefreshed lock is abandoned
+ */
+async function isStale(lockPath : string, staleTimeout : number) : Promise<boolean> {
+    let stat : fs.Stats
+    try {
+        stat = await fs.promises.stat(lockPath)
+    } catch {
+        /* released meanwhile */
+        return false
+    }
+
+    if (Date.now() - stat.mtimeMs > staleTimeout) {
+        return true
+    }
+
+    try {
+        const owner : LockOwner = JSON.parse(await fs.promises.readFile(lockPath, 'utf8'))
+        return owner.hostname === os.hostname() && !isProcessAlive(owner.pid)
+    } catch {
+        /* being written right now */
+        return false
+    }
+}
+
+/**
+ * Try to take the lock once
+ * @returns true if the lock is now held by this process
+ */
+async function tryLock(lockPath : string) : Promise<boolean> {
+    const owner : LockOwner = {
+        pid: process.pid,
+        hostname: os.hostname(),
+        createdAt: new Date().toISOString()
+    }
+
+    try {
+        await fs.promises.writeFile(lockPath, JSON.stringify(owner), { flag: 'wx' })
+        return true
+    } catch (e) {
+        if (e.code === 'EEXIST') return false
+        throw e
+    }
+}
+
+/**
+ * Remove a stale lock, unless another waiter replaced it with its own lock meanwhile
+ * @param lockPath the lock file
+ * @param staleTimeout age after which an unrefreshed lock is abandoned
+ */
+async function removeStaleLock(lockPath : string, staleTimeout : number) {
+    /* one waiter at a time judges and removes, so nobody removes the lock of the waiter that took over */
+    const takeoverPath = lockPath + TAKEOVER_FILE_SUFFIX
+    if (!await tryLock(takeoverPath)) {
+        /* another waiter is taking over, unless it died doing so */
+        if (await isStale(takeoverPath, staleTimeout)) {
+            await fs.promises.rm(takeoverPath, { force: true })
+        }
+        return
+    }
+
+    try {
+        if (await isStale(lockPath, staleTimeout)) {
+            await fs.promises.rm(lockPath, { force: true })
+        }
+    } finally {
+        await fs.promises.rm(takeoverPath, { force: true })
+    }
+}
+
+/**
+ * Take the advisory install lock of a directory, waiting for other processes holding it
+ * @param directory the directory to lock
+ * @param wait called with the waiting work when the lock is held by someone else
+ * @param abort an option to stop waiting
+ * @param options stale detection and polling settings
+ * @returns a function releasing the lock
+ */
+export async function lockDirectory(directory : string,
+    wait : (work : () => Promise<void>) => Promise<void>,
+    abort : { signal : { aborted : boolean } } | undefined = undefined,
+    options : KubescapeLockOptions = {}) : Promise<KubescapeLockRelease> {
+    const staleTimeout = options.staleTimeout ?? DEFAULT_LOCK_OPTIONS.staleTimeout
+    const pollInterval = options.pollInterval ?? DEFAULT_LOCK_OPTIONS.pollInterval
+    const lockPath = path.join(directory, LOCK_FILE_NAME)
+
+    await fs.promises.mkdir(directory, { recursive: true })
+
+    if (!await tryLock(lockPath)) {
+        await wait(async () => {
+            while (!await tryLock(lockPath)) {
+                if (abort?.signal.aborted) {
+                    throw new Error(ERROR_LOCK_ABORTED)
+                }
+                if (await isStale(lockPath, staleTimeout)) {
+                    await removeStaleLock(lockPath, staleTimeout)
+                    continue
+                }
+                await sleep(pollInterval)
+            }
+        })
+    }
+
+    /* keep the lock fresh while the work goes on */
+    const heartbeat = setInterval(() => {
+        const now = new Date()
+        fs.utimes(lockPath, now, now, () => null)
+    }, staleTimeout / 3)
+    heartbeat.unref()
+
+    let released = false
+    return async () => {
+        if (released) return
+        released = true
+
+        clearInterval(heartbeat)
+        await fs.promises.rm(lockPath, { force: true })
+    }
+}
@@ -0,0 +1,73 @@
+import { KubescapeReport } from './report';
+import { KubescapeControlFindings, KubescapeReportQuery } from './query';
+import { percent } from './util';
+
+const DEFAULT_TITLE = "Kubescape scan"
+const DEFAULT_TOP_CONTROLS = 10
+
+export type KubescapeMarkdownOptions = {
+
+    /** Heading of the summary */
+    title? : string
+
+    /** How many failing controls to list */
+    topControls? : number
+}
+
+/** Keep cell text from breaking the table */
+const cell = (text : string | undefined) : string => (text ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+
+
+const table = (header : string[], rows : string[][]) : string[] => [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map(row => `| ${row.join(" | ")} |`)
+]
+
+/** Order failing controls by severity, then by how many resources fail them */
+const byImpact = (a : KubescapeControlFindings, b : KubescapeControlFindings) : number =>
+    (b.scoreFactor ?? 0) - (a.scoreFactor ?? 0) || b.findings.length - a.findings.length
+
+/**
+ * Render a compact summary of a scan as Markdown, e.g. for a pull request comment
+ * @param report the results of the scan
+ * @param options title and length of the summary
+ * @returns the framework scores and the top failing controls
+ */
+export function toMarkdown(report : KubescapeReport, options : KubescapeMarkdownOptions = {}) : string {
+    const summary = report.summaryDetails
+    const score = summary.complianceScore ?? summary.score
+    const lines = [ `## ${options.title ?? DEFAULT_TITLE}`, "", `**Score:** ${percent(score)}`, "" ]
+
+    if (summary.frameworks.length > 0) {
+        lines.push(...table([ "Framework", "Score", "Failed controls" ], summary.frameworks.map(framework => {
+            const controls = Object.values(framework.controls ?? {})
+            const failed = controls.filter(control => control.status === "failed").length
+            return [
+                cell(framework.name),
+                percent(framework.complianceScore ?? framework.score),
+                `${failed} / ${controls.length}`
+            ]
+        })), "")
+    }
+
+    const failing = new KubescapeReportQuery(report).byControl({ status: "failed" }).sort(byImpact)
+    if (failing.length === 0) {
+        lines.push("No failed controls :white_check_mark:", "")
+        return lines.join("\n")
+    }
+
+    const top = failing.slice(0, options.topControls ?? DEFAULT_TOP_CONTROLS)
+    lines.push(`### Top failing controls`, "")
+    lines.push(...table([ "Severity", "Control", "Failed resources", "Remediation" ], top.map(control => [
+        control.severity,
+        `${cell(control.controlID)} ${cell(control.name)}`,
+        `${control.findings.length}`,
+        cell(control.remediation)
+    ])), "")
+
+    if (failing.length > top.length) {
+        lines.push(`_and ${failing.length - top.length} more failing controls_`, "")
+    }
+    return lines.join("\n")
+}
@@ -0,0 +1,111 @@
+import { KubescapeReport, KubescapeSeverity } from './report';
+import { KubescapeReportQuery } from './query';
+import { percent } from './util';
+
+/** Thresholds a scan must meet, every rule is optional */
+export type KubescapePolicy = {
+
+    /** Minimum overall compliance score, in percent */
+    minScore? : number
+
+    /** Minimum compliance score per framework name, `*` for every scanned framework */
+    minFrameworkScores? : { [framework: string]: number }
+
+    /** Maximum failures, counted per resource and control, of each severity */
+    maxFailures? : { [severity in KubescapeSeverity]?: number }
+
+    /** Controls that must not fail for any resource */
+    forbiddenControls? : string[]
+}
+
+export type KubescapePolicyRule = "minScore" | "minFrameworkScore" | "maxFailures" | "forbiddenControl"
+
+export type KubescapePolicyViolation = {
+    rule : KubescapePolicyRule,
+    /** the framework, severity or control the rule is about */
+    subject? : string,
+    expected : number | string,
+    actual : number | string,
+    message : string
+}
+
+export type KubescapeVerdict = {
+    passed : boolean,
+    violations : KubescapePolicyViolation[]
+}
+
+/**
+ * Decide if a scan meets a policy
+ * @param report the results of the scan
+ * @param policy the thresholds
+ * @returns the verdict, with every rule the scan violates
+ */
+export function evaluatePolicy(report : KubescapeReport, policy : KubescapePolicy) : KubescapeVerdict {
+    const summary = report.summaryDetails
+    const query = new KubescapeReportQuery(report)
+    const violations : KubescapePolicyViolation[] = []
+
+    if (policy.minScore !== undefined) {
+        const score = summary.complianceScore ?? summary.score
+        if (score < policy.minScore) {
+            violations.push({
+                rule: "minScore",
+                expected: policy.minScore,
+                actual: score,
+                message: `Compliance score ${percent(score)} is below ${percent(policy.minScore)}`
+            })
+        }
+    }
+
+    for (const [ name, minScore ] of Object.entries(policy.minFrameworkScores ?? {})) {
+        const frameworks = name === "*" ? summary.frameworks :
+            summary.frameworks.filter(framework => framework.name.toLowerCase() === name.toLowerCase())
+
+        if (frameworks.length === 0) {
+            violations.push({
+                rule: "minFrameworkScore",
+                subject: name,
+                expected: minScore,
+                actual: "not scanned",
+                message: `Framework ${name} was not scanned`
+            })
+        }
+        for (const framework of frameworks) {
+            const score = framework.complianceScore ?? framework.score
+            if (score < minScore) {
+                violations.push({
+                    rule: "minFrameworkScore",
+                    subject: framework.name,
+                    expected: minScore,
+                    actual: score,
+                    message: `Framework ${framework.name} compliance score ${percent(score)} is below ${percent(minScore)}`
+                })
+            }
+        }
+    }
+
+    for (const [ severity, maxFailures ] of Object.entries(policy.maxFailures ?? {})) {
+        const failures = query.findings({ status: "failed", severity: severity as KubescapeSeverity }).length
+        if (failures > maxFailures) {
+            violations.push({
+                rule: "maxFailures",
+                subject: severity,
+                expected: maxFailures,
+                actual: failures,
+                message: `${failures} ${severity.toLowerCase()} severity failures, at most ${maxFailures} allowed`
+            })
+        }
+    }
+
+    for (const control of query.byControl({ status: "failed", controlID: policy.forbiddenControls ?? [] })) {
+        violations.push({
+            rule: "forbiddenControl",
+            subject: control.controlID,
+            expected: 0,
+            actual: control.findings.length,
+            message: `Forbidden control ${control.controlID} (${control.name}) failed for ${control.findings.length} resources`
+        })
+    }
+
+    return { passed: violations.length === 0, violations: violations }
+}
@@ -0,0 +1,233 @@
+import {
+    KubescapeReport, KubescapeResourceSource, KubescapeRulePath, KubescapeRuleResult, KubescapeSeverity,
+    KubescapeStatus, scoreFactorToSeverity
+} from './report';
+
+/** Identity of a scanned kubernetes object */
+export type KubescapeResourceRef = {
+    apiVersion? : string,
+    kind : string,
+    name : string,
+    namespace? : string
+}
+
+/** Outcome of one control for one resource */
+export type KubescapeFinding = {
+    controlID : string,
+    controlName : string,
+    status : KubescapeStatus,
+    severity : KubescapeSeverity,
+    scoreFactor : number | undefined,
+    /** names of the frameworks the control was evaluated for */
+    frameworks : string[],
+    description? : string,
+    remediation? : string,
+    resourceID : string,
+    resource : KubescapeResourceRef,
+    source? : KubescapeResourceSource,
+    paths : KubescapeRulePath[]
+}
+
+/** Findings of a single resource */
+export type KubescapeResourceFindings = {
+    resourceID : string,
+    resource : KubescapeResourceRef,
+    source? : KubescapeResourceSource,
+    findings : KubescapeFinding[]
+}
+
+/** Findings of a single control */
+export type KubescapeControlFindings = {
+    controlID : string,
+    name : string,
+    severity : KubescapeSeverity,
+    scoreFactor : number | undefined,
+    frameworks : string[],
+    description? : string,
+    remediation? : string,
+    findings : KubescapeFinding[]
+}
+
+/**
+ * Criteria findings must all meet, a list matches any of its values.
+ * Frameworks and kinds are compared ignoring case.
+ */
+export type KubescapeReportFilter = {
+    severity? : KubescapeSeverity | KubescapeSeverity[]
+    controlID? : string | string[]
+    framework? : string | string[]
+    status? : KubescapeStatus | KubescapeStatus[]
+    kind? : string | string[]
+    name? : string | string[]
+    namespace? : string | string[]
+}
+
+const asList = <T>(value : T | T[] | undefined) : T[] | undefined =>
+    value === undefined ? undefined : Array.isArray(value) ? value : [ value ]
+
+const matches = (accepted : string[] | undefined, value : string | undefined, ignoreCase = false) : boolean => {
+    if (!accepted) return true
+    if (value === undefined) return false
+    return ignoreCase ?
+        accepted.some(a => a.toLowerCase() === value.toLowerCase()) :
+        accepted.includes(value)
+}
+
+/**
+ * Get the identity of a resource from its object, or from its ID when the object is missing
+ * @param resourceID kubescape resource ID, like `path=123/api=apps/v1/default/Deployment/nginx`
+ * @param object the kubernetes object
+ */
+export function resourceRef(resourceID : string, object : any) : KubescapeResourceRef {
+    if (object?.kind && object?.metadata?.name) {
+        return {
+            apiVersion: object.apiVersion,
+            kind: object.kind,
+            name: object.metadata.name,
+            namespace: object.metadata.namespace || undefined
+        }
+    }
+
+    /* IDs end with <group>/<version>/<namespace>/<kind>/<name> */
+    const api = resourceID.indexOf("api=")
+    const parts = (api < 0 ? resourceID : resourceID.substring(api + "api=".length)).split('/')
+    const [ namespace, kind, name ] = parts.slice(-3)
+    const apiVersion = parts.slice(0, -3).filter(part => part).join('/')
+    return {
+        apiVersion: apiVersion || undefined,
+        kind: kind ?? "",
+        name: name ?? resourceID,
+        namespace: namespace || undefined
+    }
+}
+
+/** Flatten the locations of a rule, older kubescape versions list them separately */
+const rulePaths = (rule : KubescapeRuleResult) : KubescapeRulePath[] => [
+    ...(rule.paths ?? []),
+    ...(rule.failedPaths ?? []).map(failedPath => ({ failedPath: failedPath })),
+    ...(rule.fixPaths ?? []).map(fixPath => ({ fixPath: fixPath }))
+]
+
+/**
+ * Filter and pivot the results of a scan
+ */
+export class KubescapeReportQuery {
+    private _findings : KubescapeFinding[] | undefined = undefined
+
+    constructor(private _report : KubescapeReport) {
+    }
+
+    get report() : KubescapeReport {
+        return this._report
+    }
+
+    /** Flatten the report into one finding per resource and control */
+    private get allFindings() : KubescapeFinding[] {
+        if (this._findings) return this._findings
+
+        const summary = this._report.summaryDetails
+        const frameworksOf = new Map<string, string[]>()
+        for (const framework of summary.frameworks) {
+            for (const controlID of Object.keys(framework.controls ?? {})) {
+                frameworksOf.set(controlID, [ ...(frameworksOf.get(controlID) ?? []), framework.name ])
+            }
+        }
+
+        const resources = new Map((this._report.resources ?? []).map(resource => [ resource.resourceID, resource ]))
+
+        this._findings = []
+        for (const result of this._report.results ?? []) {
+            const resource = resources.get(result.resourceID)
+            const ref = resourceRef(result.resourceID, resource?.object)
+
+            for (const control of result.controls) {
+                const controlSummary = summary.controls[control.controlID]
+                this._findings.push({
+                    controlID: control.controlID,
+                    controlName: control.name ?? controlSummary?.name,
+                    status: control.status?.status,
+                    severity: scoreFactorToSeverity(controlSummary?.scoreFactor),
+                    scoreFactor: controlSummary?.scoreFactor,
+                    frameworks: frameworksOf.get(control.controlID) ?? [],
+                    description: controlSummary?.description,
+                    remediation: controlSummary?.remediation,
+                    resourceID: result.resourceID,
+                    resource: ref,
+                    source: resource?.source,
+                    paths: (control.rules ?? []).flatMap(rulePaths)
+                })
+            }
+        }
+        return this._findings
+    }
+
+    /**
+     * Get the findings matching a filter
+     * @param filter the criteria, everything by default
+     * @returns findings in report order
+     */
+    findings(filter : KubescapeReportFilter = {}) : KubescapeFinding[] {
+        const severities = asList(filter.severity)
+        const controlIDs = asList(filter.controlID)
+        const frameworks = asList(filter.framework)
+        const statuses = asList(filter.status)
+        const kinds = asList(filter.kind)
+        const names = asList(filter.name)
+        const namespaces = asList(filter.namespace)
+
+        return this.allFindings.filter(finding =>
+            matches(severities, finding.severity) &&
+            matches(controlIDs, finding.controlID) &&
+            (!frameworks || finding.frameworks.some(name => matches(frameworks, name, true))) &&
+            matches(statuses, finding.status) &&
+            matches(kinds, finding.resource.kind, true) &&
+            matches(names, finding.resource.name) &&
+            matches(namespaces, finding.resource.namespace))
+    }
+
+    /**
+     * Group the findings matching a filter by resource
+     * @param filter the criteria, everything by default
+     * @returns resources having at least one matching finding
+     */
+    byResource(filter : KubescapeReportFilter = {}) : KubescapeResourceFindings[] {
+        const groups = new Map<string, KubescapeResourceFindings>()
+        for (const finding of this.findings(filter)) {
+            if (!groups.has(finding.resourceID)) {
+                groups.set(finding.resourceID, {
+                    resourceID: finding.resourceID,
+                    resource: finding.resource,
+                    source: finding.source,
+                    findings: []
+                })
+            }
+            groups.get(finding.resourceID).findings.push(finding)
+        }
+        return [ ...groups.values() ]
+    }
+
+    /**
+     * Group the findings matching a filter by control
+     * @param filter the criteria, everything by default
+     * @returns controls having at least one matching finding
+     */
+    byControl(filter : KubescapeReportFilter = {}) : KubescapeControlFindings[] {
+        const groups = new Map<string, KubescapeControlFindings>()
+        for (const finding of this.findings(filter)) {
+            if (!groups.has(finding.controlID)) {
+                groups.set(finding.controlID, {
+                    controlID: finding.controlID,
+                    name: finding.controlName,
+                    severity: finding.severity,
+                    scoreFactor: finding.scoreFactor,
+                    frameworks: finding.frameworks,
+                    description: finding.description,
+                    remediation: finding.remediation,
+                    findings: []
+                })
+            }
+            groups.get(finding.controlID).findings.push(finding)
+        }
+        return [ ...groups.values() ]
+    }
+}
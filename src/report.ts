@@ -0,0 +1,260 @@
+/*
+ * Model of the report kubescape writes with `--format json --format-version v2`
+ */
+
+export type KubescapeStatus = "passed" | "failed" | "skipped" | "excluded" | "irrelevant" | "error" | "unknown"
+
+export type KubescapeSeverity = "Critical" | "High" | "Medium" | "Low" | "Unknown"
+
+export type KubescapeStatusInfo = {
+    status : KubescapeStatus,
+    subStatus? : string,
+    info? : string
+}
+
+export type KubescapeResourceCounters = {
+    passedResources : number,
+    failedResources : number,
+    excludedResources? : number,
+    skippedResources? : number
+}
+
+export type KubescapeSeverityCounters = {
+    criticalSeverity : number,
+    highSeverity : number,
+    mediumSeverity : number,
+    lowSeverity : number
+}
+
+/** Outcome of a single control over all the scanned resources */
+export type KubescapeControlSummary = {
+    controlID : string,
+    name : string,
+    status : KubescapeStatus,
+    statusInfo? : KubescapeStatusInfo,
+    score : number,
+    complianceScore? : number,
+    /** base score of the control, see `scoreFactorToSeverity` */
+    scoreFactor : number,
+    ResourceCounters? : KubescapeResourceCounters,
+    subStatusCounters? : { ignoredResources? : number },
+    category? : { name : string, subCategory? : { name : string } },
+
+    /** added from the framework files by `appendControlsInformationToV2Report` */
+    description? : string,
+    /** added from the framework files by `appendControlsInformationToV2Report` */
+    remediation? : string
+}
+
+export type KubescapeControlSummaries = { [controlID: string]: KubescapeControlSummary }
+
+/** Outcome of a framework over all the scanned resources */
+export type KubescapeFrameworkSummary = {
+    name : string,
+    status? : KubescapeStatus,
+    version? : string,
+    score : number,
+    complianceScore? : number,
+    controls? : KubescapeControlSummaries,
+    ResourceCounters? : KubescapeResourceCounters
+}
+
+export type KubescapeSummaryDetails = {
+    score : number,
+    complianceScore? : number,
+    status? : KubescapeStatus,
+    frameworks : KubescapeFrameworkSummary[],
+    controls : KubescapeControlSummaries,
+    ResourceCounters? : KubescapeResourceCounters,
+    controlsSeverityCounters? : KubescapeSeverityCounters,
+    resourcesSeverityCounters? : KubescapeSeverityCounters
+}
+
+/** Where a resource was read from, for file and repository scans */
+export type KubescapeResourceSource = {
+    path : string,
+    relativePath : string,
+    fileType? : string,
+    helmChartName? : string,
+    lastCommit? : any
+}
+
+export type KubescapeResource = {
+    resourceID : string,
+    /** the kubernetes object as kubescape read it */
+    object : any,
+    source? : KubescapeResourceSource
+}
+
+export type KubescapeFixPath = {
+    path : string,
+    value : string
+}
+
+/** Location of a finding inside a resource, as a dotted path like `spec.containers[0].image` */
+export type KubescapeRulePath = {
+    failedPath? : string,
+    fixPath? : KubescapeFixPath,
+    reviewPath? : string,
+    deletePath? : string
+}
+
+export type KubescapeRuleResult = {
+    name : string,
+    status? : KubescapeStatus,
+    paths? : KubescapeRulePath[],
+    /** older kubescape versions */
+    failedPaths? : string[],
+    /** older kubescape versions */
+    fixPaths? : KubescapeFixPath[],
+    exception? : any[]
+}
+
+export type KubescapeResultControl = {
+    controlID : string,
+    name : string,
+    status : KubescapeStatusInfo,
+    rules? : KubescapeRuleResult[]
+}
+
+/** Outcome of all the controls for a single resource */
+export type KubescapeResult = {
+    resourceID : string,
+    controls : KubescapeResultControl[]
+}
+
+export type KubescapeScanMetadata = {
+    formats? : string[],
+    formatVersion? : string,
+    targetType? : string,
+    targetNames? : string[],
+    kubescapeVersion? : string,
+    [key: string]: any
+}
+
+export type KubescapeReportMetadata = {
+    scanMetadata? : KubescapeScanMetadata,
+    clusterMetadata? : any,
+    [key: string]: any
+}
+
+export type KubescapeReport = {
+    clusterName? : string,
+    reportGUID? : string,
+    generationTime? : string,
+    summaryDetails : KubescapeSummaryDetails,
+    resources? : KubescapeResource[],
+    results? : KubescapeResult[],
+    metadata? : KubescapeReportMetadata,
+    customerConfig? : any,
+    [key: string]: any
+}
+
+/**
+ * Raised when a report file is not a valid v2 report, e.g. it is truncated
+ */
+export class KubescapeReportError extends Error {
+    /** where in the report the problem was found, e.g. `summaryDetails.controls` */
+    readonly location : string | undefined
+
+    constructor(message : string, location : string | undefined = undefined) {
+        super(location ? `Invalid kubescape report at ${location}: ${message}` : `Invalid kubescape report: ${message}`)
+        this.name = "KubescapeReportError"
+        this.location = location
+    }
+}
+
+const isObject = (value : any) : boolean => value !== null && typeof value === 'object' && !Array.isArray(value)
+
+function expectObject(value : any, location : string) {
+    if (!isObject(value)) {
+        throw new KubescapeReportError("expected an object", location)
+    }
+}
+
+function expectArray(value : any, location : string, optional = false) {
+    if (optional && value === undefined) return
+    if (!Array.isArray(value)) {
+        throw new KubescapeReportError("expected a list", location)
+    }
+}
+
+function expectString(value : any, location : string) {
+    if (typeof value !== 'string') {
+        throw new KubescapeReportError("expected a string", location)
+    }
+}
+
+/**
+ * Check that an object has the shape of a v2 report
+ * @param obj the parsed report
+ * @returns the report, typed
+ */
+export function validateReport(obj : any) : KubescapeReport {
+    expectObject(obj, "report")
+    expectObject(obj.summaryDetails, "summaryDetails")
+
+    const controls = obj.summaryDetails.controls ?? {}
+    expectObject(controls, "summaryDetails.controls")
+    for (const [controlID, control] of Object.entries<any>(controls)) {
+        expectObject(control, `summaryDetails.controls.${controlID}`)
+    }
+
+    const frameworks = obj.summaryDetails.frameworks ?? []
+    expectArray(frameworks, "summaryDetails.frameworks")
+    frameworks.forEach((framework : any, i : number) => {
+        expectObject(framework, `summaryDetails.frameworks[${i}]`)
+        expectString(framework.name, `summaryDetails.frameworks[${i}].name`)
+    })
+
+    expectArray(obj.resources, "resources", true)
+    obj.resources?.forEach((resource : any, i : number) => {
+        expectObject(resource, `resources[${i}]`)
+        expectString(resource.resourceID, `resources[${i}].resourceID`)
+    })
+
+    expectArray(obj.results, "results", true)
+    obj.results?.forEach((result : any, i : number) => {
+        expectObject(result, `results[${i}]`)
+        expectString(result.resourceID, `results[${i}].resourceID`)
+        expectArray(result.controls, `results[${i}].controls`)
+    })
+
+    /* reports of empty scans omit these */
+    obj.summaryDetails.controls = controls
+    obj.summaryDetails.frameworks = frameworks
+
+    return obj as KubescapeReport
+}
+
+/**
+ * Parse the content of a v2 report file
+ * @param text the report file content
+ * @returns the report, typed
+ */
+export function parseReport(text : string) : KubescapeReport {
+    if (text.trim().length === 0) {
+        throw new KubescapeReportError("the report is empty")
+    }
+
+    let obj : any
+    try {
+        obj = JSON.parse(text)
+    } catch (e) {
+        throw new KubescapeReportError(`the report is not valid JSON (${e.message})`)
+    }
+
+    return validateReport(obj)
+}
+
+/**
+ * Get the severity kubescape assigns to a control base score
+ * @param scoreFactor the control `scoreFactor`
+ */
+export function scoreFactorToSeverity(scoreFactor : number | undefined) : KubescapeSeverity {
+    if (scoreFactor >= 9) return "Critical"
+    if (scoreFactor >= 7) return "High"
+    if (scoreFactor >= 4) return "Medium"
+    if (scoreFactor >= 1) return "Low"
+    return "Unknown"
+}
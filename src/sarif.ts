@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as url from 'url';
+
+import { KubescapeReport, KubescapeSeverity } from './report';
+import { KubescapeFinding, KubescapeReportQuery } from './query';
+import { KubescapeRange, KubescapeResourceLocation, locateFindings } from './locations';
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json"
+const SARIF_VERSION = "2.1.0"
+
+const TOOL_NAME = "kubescape"
+const TOOL_URL = "https://github.com/kubescape/kubescape"
+const CONTROL_URL = "https://hub.armosec.io/docs/"
+
+export type KubescapeSarifLevel = "error" | "warning" | "note" | "none"
+
+const SARIF_LEVELS : { [severity in KubescapeSeverity]: KubescapeSarifLevel } = {
+    Critical: "error",
+    High: "error",
+    Medium: "warning",
+    Low: "note",
+    Unknown: "warning"
+}
+
+export type KubescapeSarifRegion = {
+    startLine : number,
+    startColumn? : number,
+    endLine? : number,
+    endColumn? : number
+}
+
+export type KubescapeSarifLocation = {
+    physicalLocation? : {
+        artifactLocation : { uri : string },
+        region? : KubescapeSarifRegion
+    },
+    logicalLocations? : { name : string, fullyQualifiedName : string, kind : string }[]
+}
+
+export type KubescapeSarifRule = {
+    id : string,
+    name : string,
+    shortDescription : { text : string },
+    fullDescription : { text : string },
+    help? : { text : string },
+    helpUri : string,
+    defaultConfiguration : { level : KubescapeSarifLevel },
+    properties : { tags : string[], "security-severity"? : string }
+}
+
+export type KubescapeSarifResult = {
+    ruleId : string,
+    ruleIndex? : number,
+    level : KubescapeSarifLevel,
+    message : { text : string },
+    locations : KubescapeSarifLocation[]
+}
+
+/** The subset of SARIF 2.1.0 written for kubescape reports */
+export type KubescapeSarifLog = {
+    $schema : string,
+    version : string,
+    runs : {
+        tool : {
+            driver : {
+                name : string,
+                version? : string,
+                informationUri : string,
+                rules : KubescapeSarifRule[]
+            }
+        },
+        results : KubescapeSarifResult[]
+    }[]
+}
+
+export type KubescapeSarifOptions = {
+
+    /** Write file locations relative to this directory, as code scanning expects, instead of `file://` URIs */
+    baseDirectory? : string
+
+    /** Get the content of a scanned file to compute regions, reads the file from disk by default */
+    readFile? : (filePath : string) => string | undefined
+}
+
+const readFileIfExists = (filePath : string) : string | undefined => {
+    try {
+        return fs.readFileSync(filePath, 'utf8')
+    } catch {
+        return undefined
+    }
+}
+
+const toRegion = (range : KubescapeRange) : KubescapeSarifRegion => ({
+    startLine: range.start.line,
+    startColumn: range.start.column,
+    endLine: range.end.line,
+    endColumn: range.end.column
+})
+
+/**
+ * Get where the finding was found in its file
+ * @param finding the finding
+ * @param location the resource in the file, if found
+ */
+function findingRegion(finding : KubescapeFinding, location : KubescapeResourceLocation | undefined) : KubescapeSarifRegion {
+    if (!location) return { startLine: 1 }
+
+    const paths = location.findings.filter(f => f.controlID === finding.controlID)
+    const best = paths.find(f => f.exact && f.type === "failed") ?? paths.find(f => f.exact) ?? paths[0]
+    return toRegion(best?.range ?? location.range)
+}
+
+/**
+ * Convert the results of a scan to SARIF 2.1.0
+ * @param report the results of the scan
+ * @param options how to write file locations
+ * @returns a SARIF log with a rule per control and a result per failed resource and control
+ */
+export function toSarif(report : KubescapeReport, options : KubescapeSarifOptions = {}) : KubescapeSarifLog {
+    const query = new KubescapeReportQuery(report)
+    const readFile = options.readFile ?? readFileIfExists
+
+    const rules : KubescapeSarifRule[] = query.byControl().map(control => ({
+        id: control.controlID,
+        name: control.name,
+        shortDescription: { text: control.name },
+        fullDescription: { text: control.description || control.name },
+        help: control.remediation ? { text: control.remediation } : undefined,
+        helpUri: `${CONTROL_URL}${control.controlID.toLowerCase()}`,
+        defaultConfiguration: { level: SARIF_LEVELS[control.severity] },
+        properties: {
+            tags: [ "security", "kubernetes", ...control.frameworks ],
+            "security-severity": control.scoreFactor !== undefined ? control.scoreFactor.toFixed(1) : undefined
+        }
+    }))
+    const ruleIndexes = new Map(rules.map((rule, i) => [ rule.id, i ]))
+
+    /* locate the resources of each scanned file once */
+    const fileLocations = new Map<string, Map<string, KubescapeResourceLocation>>()
+    const locationOf = (filePath : string, resourceID : string) : KubescapeResourceLocation | undefined => {
+        if (!fileLocations.has(filePath)) {
+            const text = readFile(filePath)
+            const located = text === undefined ? [] : locateFindings(report, text)
+            fileLocations.set(filePath, new Map(located.map(location => [ location.resourceID, location ])))
+        }
+        return fileLocations.get(filePath).get(resourceID)
+    }
+
+    const results : KubescapeSarifResult[] = []
+    for (const resource of query.byResource({ status: "failed" })) {
+        const ref = resource.resource
+        const qualifiedName = [ ref.namespace, ref.kind, ref.name ].filter(part => part).join('/')
+
+        let filePath : string | undefined = undefined
+        let uri : string | undefined = undefined
+        if (resource.source?.relativePath) {
+            if (resource.source.path) {
+                filePath = path.resolve(resource.source.path, resource.source.relativePath)
+                uri = options.baseDirectory ?
+                    path.relative(options.baseDirectory, filePath).split(path.sep).join('/') :
+                    url.pathToFileURL(filePath).href
+            } else {
+                /* content scanned under a name of its own */
+                uri = resource.source.relativePath
+            }
+        }
+
+        for (const finding of resource.findings) {
+            const location : KubescapeSarifLocation = {
+                logicalLocations: [ { name: ref.name, fullyQualifiedName: qualifiedName, kind: "resource" } ]
+            }
+            if (uri) {
+                location.physicalLocation = {
+                    artifactLocation: { uri: uri },
+                    region: findingRegion(finding, filePath ? locationOf(filePath, resource.resourceID) : undefined)
+                }
+            }
+
+            results.push({
+                ruleId: finding.controlID,
+                ruleIndex: ruleIndexes.get(finding.controlID),
+                level: SARIF_LEVELS[finding.severity],
+                message: {
+                    text: `${qualifiedName} failed control ${finding.controlID} (${finding.controlName})` +
+                        (finding.remediation ? `. ${finding.remediation}` : "")
+                },
+                locations: [ location ]
+            })
+        }
+    }
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: SARIF_VERSION,
+        runs: [ {
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    version: report.metadata?.scanMetadata?.kubescapeVersion,
+                    informationUri: TOOL_URL,
+                    rules: rules
+                }
+            },
+            results: results
+        } ]
+    }
+}
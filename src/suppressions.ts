@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+
+import { parse } from 'yaml';
+
+import {
+    KubescapeControlSummary, KubescapeReport, KubescapeResourceCounters, KubescapeSeverity,
+    KubescapeSeverityCounters, scoreFactorToSeverity
+} from './report';
+import { KubescapeFinding, KubescapeReportQuery, KubescapeResourceRef } from './query';
+import { DAY } from './util';
+
+/** Status given to suppressed failures, as kubescape reports its own exceptions */
+const SUPPRESSED_SUB_STATUS = "w/exceptions"
+
+/** Resources a suppression applies to, missing fields match everything and `*` matches any text */
+export type KubescapeSuppressionMatcher = {
+    kind? : string,
+    name? : string,
+    namespace? : string
+}
+
+/** A waiver of a control for some resources */
+export type KubescapeSuppression = {
+    /** the control waived, `*` for all */
+    controlID : string,
+    resource? : KubescapeSuppressionMatcher,
+    /** why the failure is accepted */
+    reason : string,
+    /** date or time after which the waiver no longer applies, a date includes the whole day */
+    expires? : string
+}
+
+/** Outcome of applying suppressions to a report */
+export type KubescapeSuppressionResult = {
+    /** copy of the report with suppressed failures passing and summaries recalculated */
+    report : KubescapeReport,
+    suppressed : { finding : KubescapeFinding, suppression : KubescapeSuppression }[],
+    /** waivers not applied anymore */
+    expired : KubescapeSuppression[]
+}
+
+/**
+ * Raised when a suppression file cannot be used
+ */
+export class KubescapeSuppressionError extends Error {
+    constructor(message : string, source : string | undefined = undefined) {
+        super(source ? `Invalid suppressions in ${source}: ${message}` : `Invalid suppressions: ${message}`)
+        this.name = "KubescapeSuppressionError"
+    }
+}
+
+/**
+ * Parse suppressions, written as YAML or JSON:
+ * ```yaml
+ * suppressions:
+ *   - controlID: C-0057
+ *     resource: { kind: DaemonSet, name: calico-node, namespace: kube-system }
+ *     reason: the CNI needs host access
+ *     expires: 2024-12-31
+ * ```
+ * @param text the suppression file content
+ * @param source name of the file for error messages
+ */
+export function parseSuppressions(text : string, source : string | undefined = undefined) : KubescapeSuppression[] {
+    let obj : any
+    try {
+        obj = parse(text)
+    } catch (e) {
+        throw new KubescapeSuppressionError(e.message, source)
+    }
+
+    const entries = obj?.suppressions ?? []
+    if (!Array.isArray(entries)) {
+        throw new KubescapeSuppressionError("`suppressions` must be a list", source)
+    }
+
+    return entries.map((entry : any, i : number) : KubescapeSuppression => {
+        const at = `suppressions[${i}]`
+        if (typeof entry?.controlID !== 'string' || entry.controlID.length === 0) {
+            throw new KubescapeSuppressionError(`${at} is missing the controlID`, source)
+        }
+        if (typeof entry.reason !== 'string' || entry.reason.trim().length === 0) {
+            throw new KubescapeSuppressionError(`${at} is missing the reason`, source)
+        }
+        if (entry.resource !== undefined && (entry.resource === null || typeof entry.resource !== 'object')) {
+            throw new KubescapeSuppressionError(`${at}.resource must be an object`, source)
+        }
+
+        const expires = entry.expires instanceof Date ? entry.expires.toISOString() : entry.expires
+        if (expires !== undefined && (typeof expires !== 'string' || isNaN(Date.parse(expires)))) {
+            throw new KubescapeSuppressionError(`${at}.expires is not a date`, source)
+        }
+
+        return {
+            controlID: entry.controlID,
+            resource: entry.resource,
+            reason: entry.reason,
+            expires: expires
+        }
+    })
+}
+
+/**
+ * Read a suppression file
+ * @param filePath the YAML or JSON file
+ */
+export async function loadSuppressions(filePath : string) : Promise<KubescapeSuppression[]> {
+    return parseSuppressions(await fs.promises.readFile(filePath, 'utf8'), filePath)
+}
+
+/**
+ * Check if a suppression is past its expiry
+ * @param suppression the suppression
+ * @param now the current time
+ */
+export function isSuppressionExpired(suppression : KubescapeSuppression, now : Date = new Date()) : boolean {
+    if (!suppression.expires) return false
+
+    let expires = Date.parse(suppression.expires)
+    if (/^\d{4}-\d{2}-\d{2}$/.test(suppression.expires)) {
+        expires += DAY
+    }
+    return now.getTime() >= expires
+}
+
+/** A glob as a regular expression matching whole values, as used here and by kubescape */
+const globToRegExp = (glob : string) : string =>
+    `^${glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`
+
+const globMatches = (glob : string | undefined, value : string | undefined, ignoreCase = false) : boolean =>
+    glob === undefined || new RegExp(globToRegExp(glob), ignoreCase ? 'i' : '').test(value ?? "")
+
+const suppressionMatches = (suppression : KubescapeSuppression, controlID : string, resource : KubescapeResourceRef) =>
+    globMatches(suppression.controlID, controlID) &&
+    globMatches(suppression.resource?.kind, resource.kind, true) &&
+    globMatches(suppression.resource?.name, resource.name) &&
+    globMatches(suppression.resource?.namespace, resource.namespace)
+
+const complianceScore = (counters : KubescapeResourceCounters | undefined) : number => {
+    const total = (counters?.passedResources ?? 0) + (counters?.failedResources ?? 0)
+    return total === 0 ? 100 : (counters.passedResources / total) * 100
+}
+
+const average = (values : number[]) : number =>
+    values.length === 0 ? 100 : values.reduce((sum, value) => sum + value, 0) / values.length
+
+const severityCounters = (severities : KubescapeSeverity[]) : KubescapeSeverityCounters => ({
+    criticalSeverity: severities.filter(s => s === "Critical").length,
+    highSeverity: severities.filter(s => s === "High").length,
+    mediumSeverity: severities.filter(s => s === "Medium").length,
+    lowSeverity: severities.filter(s => s === "Low").length
+})
+
+const SEVERITY_ORDER : KubescapeSeverity[] = [ "Critical", "High", "Medium", "Low", "Unknown" ]
+
+/** Move a resource from failed to passed in a control summary */
+function passResource(control : KubescapeControlSummary | undefined) {
+    if (!control?.ResourceCounters) return
+
+    control.ResourceCounters.failedResources = Math.max(0, control.ResourceCounters.failedResources - 1)
+    control.ResourceCounters.passedResources += 1
+    control.subStatusCounters = { ...control.subStatusCounters,
+        ignoredResources: (control.subStatusCounters?.ignoredResources ?? 0) + 1 }
+    if (control.ResourceCounters.failedResources === 0) {
+        control.status = "passed"
+        control.statusInfo = { status: "passed", subStatus: SUPPRESSED_SUB_STATUS }
+    }
+    control.score = control.complianceScore = complianceScore(control.ResourceCounters)
+}
+
+/** Recalculate the scores and counters that depend on the control outcomes */
+function recalculateSummary(report : KubescapeReport) {
+    const summary = report.summaryDetails
+    const query = new KubescapeReportQuery(report)
+
+    const resourceCounters = (controlIDs : string[] | undefined) : KubescapeResourceCounters => {
+        const findings = controlIDs ? query.findings({ controlID: controlIDs }) : query.findings()
+        const resources = new Set(findings.map(f => f.resourceID))
+        const failed = new Set(findings.filter(f => f.status === "failed").map(f => f.resourceID))
+        return { passedResources: resources.size - failed.size, failedResources: failed.size }
+    }
+
+    for (const framework of summary.frameworks) {
+        const controls = Object.values(framework.controls ?? {})
+        framework.score = framework.complianceScore = average(controls.map(control => control.complianceScore ?? control.score))
+        framework.status = controls.some(control => control.status === "failed") ? "failed" : "passed"
+        if (framework.ResourceCounters) {
+            framework.ResourceCounters = { ...framework.ResourceCounters, ...resourceCounters(Object.keys(framework.controls ?? {})) }
+        }
+    }
+
+    const controls = Object.values(summary.controls)
+    summary.score = summary.complianceScore = average(controls.map(control => control.complianceScore ?? control.score))
+    summary.status = controls.some(control => control.status === "failed") ? "failed" : "passed"
+    if (summary.ResourceCounters) {
+        summary.ResourceCounters = { ...summary.ResourceCounters, ...resourceCounters(undefined) }
+    }
+
+    const failedControls = controls.filter(control => control.status === "failed")
+    summary.controlsSeverityCounters = severityCounters(failedControls.map(control => scoreFactorToSeverity(control.scoreFactor)))
+    /* each failed resource counts once, with its most severe failure */
+    summary.resourcesSeverityCounters = severityCounters(query.byResource({ status: "failed" }).map(resource =>
+        SEVERITY_ORDER.find(severity => resource.findings.some(f => f.severity === severity))))
+}
+
+/**
+ * Apply suppressions to the results of a scan
+ * @param report the results of the scan, left unchanged
+ * @param suppressions the waivers
+ * @param now the time to check expiry against
+ * @returns the report without the suppressed failures, what was suppressed and the expired waivers
+ */
+export function applySuppressions(report : KubescapeReport, suppressions : KubescapeSuppression[],
+    now : Date = new Date()) : KubescapeSuppressionResult {
+    const copy : KubescapeReport = JSON.parse(JSON.stringify(report))
+    const active = suppressions.filter(suppression => !isSuppressionExpired(suppression, now))
+    const expired = suppressions.filter(suppression => isSuppressionExpired(suppression, now))
+
+    const suppressed : KubescapeSuppressionResult["suppressed"] = []
+    for (const finding of new KubescapeReportQuery(copy).findings({ status: "failed" })) {
+        const suppression = active.find(s => suppressionMatches(s, finding.controlID, finding.resource))
+        if (!suppression) continue
+
+        const result = copy.results.find(r => r.resourceID === finding.resourceID)
+        const control = result.controls.find(c => c.controlID === finding.controlID)
+        control.status = { status: "passed", subStatus: SUPPRESSED_SUB_STATUS, info: suppression.reason }
+
+        passResource(copy.summaryDetails.controls[finding.controlID])
+        for (const framework of copy.summaryDetails.frameworks) {
+            passResource(framework.controls?.[finding.controlID])
+        }
+        suppressed.push({ finding: finding, suppression: suppression })
+    }
+
+    if (suppressed.length > 0) {
+        recalculateSummary(copy)
+    }
+    return { report: copy, suppressed: suppressed, expired: expired }
+}
+
+/**
+ * Translate suppressions to kubescape exceptions, for `--exceptions`
+ * @param suppressions the waivers, expired ones are left out
+ * @param now the time to check expiry against
+ * @returns posture exception policies
+ */
+export function toKubescapeExceptions(suppressions : KubescapeSuppression[], now : Date = new Date()) : any[] {
+    return suppressions.filter(suppression => !isSuppressionExpired(suppression, now)).map((suppression, i) => {
+        /* kubescape matches attributes as regular expressions */
+        const attributes : { [name: string]: string } = {}
+        for (const key of [ "kind", "name", "namespace" ]) {
+            const glob = suppression.resource?.[key]
+            if (glob !== undefined && glob !== "*") attributes[key] = globToRegExp(glob)
+        }
+
+        return {
+            name: `suppression-${i + 1}`,
+            policyType: "postureExceptionPolicy",
+            actions: [ "alertOnly" ],
+            resources: [ { designatorType: "Attributes", attributes: attributes } ],
+            posturePolicies: suppression.controlID === "*" ? [ {} ] : [ { controlID: suppression.controlID } ],
+            reason: suppression.reason
+        }
+    })
+}
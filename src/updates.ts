@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { compareVersions, validate } from 'compare-versions';
+
+import { KubescapeAbortSignal } from './http';
+import { DAY, writeFileAtomic } from './util';
+
+const CACHE_FILE_NAME = "update-check.json"
+
+const ERROR_UPDATE_CHECK_ABORTED = "Looking up the latest kubescape release was aborted"
+
+/** Set to opt out of update checks, as kubescape itself does */
+const ENV_SKIP_UPDATE_CHECK = "KUBESCAPE_SKIP_UPDATE_CHECK"
+
+/** Settings of the lookups of newer kubescape releases */
+export type KubescapeUpdateCheckOptions = {
+
+    /** How long a looked up release is trusted, in milliseconds */
+    ttl? : number
+
+    /**
+     * Never tell about newer releases, also done by setting `KUBESCAPE_SKIP_UPDATE_CHECK`.
+     * The `latest` version still looks them up.
+     */
+    disabled? : boolean
+}
+
+const DEFAULT_UPDATE_CHECK_OPTIONS : KubescapeUpdateCheckOptions = {
+    ttl: DAY,
+    disabled: false
+}
+
+/** A kubescape release as found by a lookup */
+export type KubescapeReleaseInfo = {
+    version : string,
+    /** the release notes */
+    url? : string
+}
+
+/** The newest release, as cached */
+export type KubescapeLatestRelease = KubescapeReleaseInfo & {
+    /** ISO time of the lookup */
+    checkedAt : string
+}
+
+/** A release newer than the one in use */
+export type KubescapeUpdate = {
+    currentVersion : string,
+    latestVersion : string,
+    url? : string
+}
+
+/** Release tags by semantic version, anything else is only equal or not */
+const isNewer = (latest : string, current : string) : boolean =>
+    validate(latest) && validate(current) ? compareVersions(latest, current) > 0 : latest !== current
+
+/**
+ * Looks up the newest kubescape release, at most once per time to live
+ */
+export class KubescapeUpdateCheck {
+    private _options : KubescapeUpdateCheckOptions
+    private _pending : Promise<KubescapeLatestRelease> | undefined = undefined
+
+    constructor(private _cacheFile : string, private _lookup : (signal? : KubescapeAbortSignal) => Promise<KubescapeReleaseInfo>,
+        options : KubescapeUpdateCheckOptions = {}) {
+        this._options = { ...DEFAULT_UPDATE_CHECK_OPTIONS, ...options }
+    }
+
+    /**
+     * The update check cached in the kubescape base directory
+     * @param baseDirectory the kubescape base directory
+     * @param lookup finds the newest release, stopping when its signal aborts
+     * @param options time to live and opt-out
+     */
+    static inBaseDirectory(baseDirectory : string, lookup : (signal? : KubescapeAbortSignal) => Promise<KubescapeReleaseInfo>,
+        options : KubescapeUpdateCheckOptions = {}) : KubescapeUpdateCheck {
+        return new KubescapeUpdateCheck(path.join(baseDirectory, CACHE_FILE_NAME), lookup, options)
+    }
+
+    get cacheFile() : string {
+        return this._cacheFile
+    }
+
+    /** True when the user opted out of being told about newer releases */
+    get isDisabled() : boolean {
+        const skip = process.env[ENV_SKIP_UPDATE_CHECK]
+        return this._options.disabled || (!!skip && !/^(0|false)$/i.test(skip))
+    }
+
+    /**
+     * The newest release known, without any lookup
+     * @param now the time to check the time to live against
+     * @returns the cached release, undefined when there is none or it is too old
+     */
+    async cached(now : Date = new Date()) : Promise<KubescapeLatestRelease | undefined> {
+        try {
+            const latest : KubescapeLatestRelease = JSON.parse(await fs.promises.readFile(this._cacheFile, 'utf8'))
+            const age = now.getTime() - Date.parse(latest.checkedAt)
+            return latest.version && age >= 0 && age <= this._options.ttl ? latest : undefined
+        } catch {
+            /* missing or damaged, looked up again */
+            return undefined
+        }
+    }
+
+    /**
+     * The newest release, looked up when the cached one is too old
+     * @param now the time to check the time to live against
+     * @param signal stops the lookup, nothing is cached then
+     */
+    async latest(now : Date = new Date(), signal : KubescapeAbortSignal = undefined) : Promise<KubescapeLatestRelease> {
+        const cached = await this.cached(now)
+        if (cached) return cached
+
+        /* concurrent checks share one lookup */
+        if (!this._pending) {
+            this._pending = this.refresh(now, signal).finally(() => this._pending = undefined)
+        }
+        return this._pending
+    }
+
+    private async refresh(now : Date, signal : KubescapeAbortSignal) : Promise<KubescapeLatestRelease> {
+        const latest : KubescapeLatestRelease = { ...await this._lookup(signal), checkedAt: now.toISOString() }
+        if (signal?.aborted) {
+            throw new Error(ERROR_UPDATE_CHECK_ABORTED)
+        }
+
+        await fs.promises.mkdir(path.dirname(this._cacheFile), { recursive: true })
+        await writeFileAtomic(this._cacheFile, JSON.stringify(latest))
+        return latest
+    }
+
+    /**
+     * Look for a release newer than the one in use
+     * @param currentVersion the version in use
+     * @param now the time to check the time to live against
+     * @param signal stops the lookup
+     * @returns the newer release, undefined when up to date or opted out
+     */
+    async check(currentVersion : string, now : Date = new Date(),
+        signal : KubescapeAbortSignal = undefined) : Promise<KubescapeUpdate | undefined> {
+        if (this.isDisabled) return undefined
+
+        const latest = await this.latest(now, signal)
+        if (!isNewer(latest.version, currentVersion)) return undefined
+
+        return { currentVersion: currentVersion, latestVersion: latest.version, url: latest.url }
+    }
+}
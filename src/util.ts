@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+
+import { v4 as uuidv4 } from 'uuid';
+
+const TEMP_FILE_SUFFIX = ".tmp"
+
+export const DAY = 24 * 60 * 60 * 1000
+
+export const sleep = (ms : number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** A score as a percentage, `-` when there is none */
+export const percent = (score : number | undefined) : string => score === undefined ? "-" : `${score.toFixed(1)}%`
+
+/**
+ * Write a file so readers never see it half written
+ * @param filePath the file, its directory must exist
+ * @param content what to write
+ */
+export async function writeFileAtomic(filePath : string, content : string) {
+    const tempPath = `${filePath}.${uuidv4()}${TEMP_FILE_SUFFIX}`
+    try {
+        await fs.promises.writeFile(tempPath, content)
+        await fs.promises.rename(tempPath, filePath)
+    } catch (e) {
+        await fs.promises.rm(tempPath, { force: true })
+        throw e
+    }
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { compareVersions, validate } from 'compare-versions';
+
+import { DAY, writeFileAtomic } from './util';
+
+const VERSIONS_DIRECTORY_NAME = "versions"
+const STATE_FILE_NAME = "versions.json"
+
+const ERROR_INVALID_VERSION = "Invalid kubescape version"
+const ERROR_VERSION_NOT_INSTALLED = "Kubescape version is not installed"
+
+/** A kubescape binary installed side by side with the others */
+export type KubescapeInstalledVersion = {
+    version : string,
+    /** the binary */
+    path : string,
+    /** used when the configuration does not ask for an installed version */
+    active : boolean,
+    /** ISO time the version was last installed or activated */
+    lastUsed? : string
+}
+
+/** What is kept in the state file next to the versions */
+type KubescapeVersionsState = {
+    active? : string,
+    lastUsed : { [version: string]: string }
+}
+
+/** Versions become directory names, keep them to plain release tags */
+const isValidVersion = (version : string) : boolean => /^[\w+-][\w.+-]*$/.test(version)
+
+/** Newest first, release tags by semantic version and anything else by name */
+const newestFirst = (a : string, b : string) : number =>
+    validate(a) && validate(b) ? compareVersions(b, a) : b.localeCompare(a)
+
+/**
+ * Kubescape binaries of several versions under a directory, one sub directory per version
+ */
+export class KubescapeVersions {
+
+    constructor(private _directory : string, private _binaryName : string = "kubescape") {
+    }
+
+    /**
+     * The versions kept in the kubescape base directory
+     * @param baseDirectory the kubescape base directory
+     * @param binaryName file name of the kubescape binary on this system
+     */
+    static inBaseDirectory(baseDirectory : string, binaryName : string = "kubescape") : KubescapeVersions {
+        return new KubescapeVersions(path.join(baseDirectory, VERSIONS_DIRECTORY_NAME), binaryName)
+    }
+
+    get directory() : string {
+        return this._directory
+    }
+
+    private get statePath() : string {
+        return path.join(this._directory, STATE_FILE_NAME)
+    }
+
+    /**
+     * Where a version is installed
+     * @param version the release tag
+     */
+    versionDirectory(version : string) : string {
+        if (!isValidVersion(version)) {
+            throw new Error(`${ERROR_INVALID_VERSION}: ${version}`)
+        }
+        return path.join(this._directory, version)
+    }
+
+    /**
+     * Where the binary of a version is installed
+     * @param version the release tag
+     */
+    binaryPath(version : string) : string {
+        return path.join(this.versionDirectory(version), this._binaryName)
+    }
+
+    /**
+     * Check if a version is installed
+     * @param version the release tag
+     */
+    isInstalled(version : string) : boolean {
+        return isValidVersion(version) && fs.existsSync(this.binaryPath(version))
+    }
+
+    private async readState() : Promise<KubescapeVersionsState> {
+        try {
+            const state = JSON.parse(await fs.promises.readFile(this.statePath, 'utf8'))
+            return { active: state.active, lastUsed: state.lastUsed ?? {} }
+        } catch {
+            /* missing or damaged, the installed binaries are what matters */
+            return { lastUsed: {} }
+        }
+    }
+
+    private async writeState(state : KubescapeVersionsState) {
+        await fs.promises.mkdir(this._directory, { recursive: true })
+        await writeFileAtomic(this.statePath, JSON.stringify(state))
+    }
+
+    /**
+     * List the installed versions
+     * @returns the versions, newest first
+     */
+    async list() : Promise<KubescapeInstalledVersion[]> {
+        let names : string[]
+        try {
+            names = await fs.promises.readdir(this._directory)
+        } catch (e) {
+            if (e.code === 'ENOENT') return []
+            throw e
+        }
+
+        const state = await this.readState()
+        return names.filter(name => this.isInstalled(name)).sort(newestFirst).map(version => ({
+            version: version,
+            path: this.binaryPath(version),
+            active: version === state.active,
+            lastUsed: state.lastUsed[version]
+        }))
+    }
+
+    /**
+     * The version used when the configuration does not ask for an installed one
+     * @returns the release tag, undefined when none is active or it was removed
+     */
+    async active() : Promise<string | undefined> {
+        const { active } = await this.readState()
+        return active && this.isInstalled(active) ? active : undefined
+    }
+
+    /**
+     * Make an installed version the active one
+     * @param version the release tag
+     * @param now the time of use
+     */
+    async activate(version : string, now : Date = new Date()) {
+        if (!this.isInstalled(version)) {
+            throw new Error(`${ERROR_VERSION_NOT_INSTALLED}: ${version}`)
+        }
+
+        const state = await this.readState()
+        state.active = version
+        state.lastUsed[version] = now.toISOString()
+        await this.writeState(state)
+    }
+
+    /**
+     * Record a use of a version, keeping it from being pruned
+     * @param version the release tag
+     * @param now the time of use
+     */
+    async markUsed(version : string, now : Date = new Date()) {
+        const state = await this.readState()
+        state.lastUsed[version] = now.toISOString()
+        await this.writeState(state)
+    }
+
+    /**
+     * Delete an installed version
+     * @param version the release tag
+     * @returns false if the version was not installed
+     */
+    async remove(version : string) : Promise<boolean> {
+        if (!isValidVersion(version)) return false
+
+        const existed = this.isInstalled(version)
+        await fs.promises.rm(this.versionDirectory(version), { recursive: true, force: true })
+
+        const state = await this.readState()
+        if (state.active === version || state.lastUsed[version]) {
+            delete state.lastUsed[version]
+            if (state.active === version) state.active = undefined
+            await this.writeState(state)
+        }
+        return existed
+    }
+
+    /**
+     * Delete the versions not used for a while, the active version is always kept
+     * @param maxUnusedDays how many days a version may stay unused
+     * @param now the time to compute ages from
+     * @param keep versions in use elsewhere, kept as well
+     * @returns the deleted versions
+     */
+    async prune(maxUnusedDays : number, now : Date = new Date(),
+        keep : string[] = []) : Promise<KubescapeInstalledVersion[]> {
+        const removed : KubescapeInstalledVersion[] = []
+
+        for (const installed of await this.list()) {
+            if (installed.active || keep.includes(installed.version)) continue
+
+            /* versions installed before their use was recorded age from their installation */
+            const lastUsed = installed.lastUsed ? Date.parse(installed.lastUsed) :
+                (await fs.promises.stat(installed.path)).mtime.getTime()
+            if (now.getTime() - lastUsed > maxUnusedDays * DAY) {
+                await this.remove(installed.version)
+                removed.push(installed)
+            }
+        }
+        return removed
+    }
+}
@@ -0,0 +1,43 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { archiveExtension, extractFile } from '../src/archive'
+
+describe('Kubescape archive extraction', ()=> {
+    let tmpdir : string
+
+    beforeAll(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-archive-'))
+    })
+
+    it('Should detect archive extensions', ()=> {
+        expect(archiveExtension("kubescape_3.0.0_linux_amd64.tar.gz")).toBe(".tar.gz")
+        expect(archiveExtension("kubescape-windows-latest.ZIP")).toBe(".zip")
+        expect(archiveExtension("kubescape_3.0.0_linux_amd64")).toBeUndefined()
+    })
+
+    for (let archive of [ "kubescape.tar.gz", "kubescape.zip" ]) {
+        it(`Should extract the binary out of ${archive}`, async ()=> {
+            const dest = path.join(tmpdir, `${archive}.out`)
+            const found = await extractFile(path.join('test', 'assets', archive), dest, [ "kubescape" ])
+
+            expect(found).toBe(true)
+            const content = fs.readFileSync(dest, 'utf8')
+            expect(content.startsWith("#!/bin/sh\n")).toBe(true)
+            expect(content.endsWith("echo kubescape\n")).toBe(true)
+        })
+
+        it(`Should report a missing binary in ${archive}`, async ()=> {
+            const dest = path.join(tmpdir, `${archive}.missing`)
+            const found = await extractFile(path.join('test', 'assets', archive), dest, [ "kubescape.exe" ])
+
+            expect(found).toBe(false)
+            expect(fs.existsSync(dest)).toBe(false)
+        })
+    }
+
+    afterAll(()=> {
+        fs.rmSync(tmpdir, { recursive: true })
+    })
+})
@@ -0,0 +1,73 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { diffReports, parseReport, KubescapeReport } from '../src/index'
+
+const REPORT_TEXT = fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8')
+
+const setStatus = (report : KubescapeReport, resourceName : string, controlID : string, status : "passed" | "failed") => {
+    const result = report.results.find(r => r.resourceID.endsWith(`/${resourceName}`))
+    result.controls.find(c => c.controlID === controlID).status.status = status
+}
+
+describe('Kubescape report diff', ()=> {
+    let baseline : KubescapeReport
+    let current : KubescapeReport
+
+    beforeEach(()=> {
+        baseline = parseReport(REPORT_TEXT)
+        current = parseReport(REPORT_TEXT)
+    })
+
+    it('Should find nothing new in the same scan', ()=> {
+        const diff = diffReports(baseline, current)
+
+        expect(diff.newFindings).toEqual([])
+        expect(diff.fixedFindings).toEqual([])
+        expect(diff.unchangedFindings).toHaveLength(5)
+        expect(diff.controls).toEqual([])
+        expect(diff.score).toEqual({ name: "", before: 37.5, after: 37.5, delta: 0 })
+    })
+
+    it('Should tell new and fixed findings apart', ()=> {
+        setStatus(current, "nginx-deployment", "C-0057", "passed")
+        setStatus(current, "redis", "C-0017", "passed")
+        setStatus(current, "redis", "C-0009", "failed")
+
+        const diff = diffReports(baseline, current)
+
+        expect(diff.newFindings.map(f => [ f.controlID, f.resource.name ])).toEqual([ [ "C-0009", "redis" ] ])
+        expect(diff.fixedFindings.map(f => [ f.controlID, f.resource.name ]))
+            .toEqual([ [ "C-0057", "nginx-deployment" ], [ "C-0017", "redis" ] ])
+        expect(diff.unchangedFindings).toHaveLength(3)
+        expect(diff.newControls).toEqual([])
+        expect(diff.fixedControls).toEqual([ "C-0057" ])
+        expect(diff.fixedResources).toEqual([])
+    })
+
+    it('Should report removed resources and new controls', ()=> {
+        current.results = current.results.filter(r => !r.resourceID.endsWith("/redis"))
+        baseline.results[0].controls = baseline.results[0].controls.filter(c => c.controlID !== "C-0013")
+
+        const diff = diffReports(baseline, current)
+
+        expect(diff.fixedResources).toEqual([ "path=2735113437/api=apps/v1/cache/Deployment/redis" ])
+        expect(diff.newControls).toEqual([ "C-0013" ])
+    })
+
+    it('Should compute score changes', ()=> {
+        current.summaryDetails.complianceScore = 50
+        current.summaryDetails.frameworks[0].complianceScore = 62.5
+        current.summaryDetails.frameworks.pop()
+        current.summaryDetails.controls["C-0057"].complianceScore = 100
+
+        const diff = diffReports(baseline, current)
+
+        expect(diff.score.delta).toBe(12.5)
+        expect(diff.frameworks).toEqual([
+            { name: "NSA", before: 37.5, after: 62.5, delta: 25 },
+            { name: "MITRE", before: 25, after: undefined, delta: 0 }
+        ])
+        expect(diff.controls).toEqual([ { name: "C-0057", before: 50, after: 100, delta: 50 } ])
+    })
+})
@@ -0,0 +1,80 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { parseReport, KubescapeHistory, KubescapeHistoryTarget, KubescapeReport } from '../src/index'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const TARGET : KubescapeHistoryTarget = {
+    type: "cluster",
+    target: "kind-kind",
+    context: "kind-kind",
+    kubescapeVersion: "v2.3.1",
+    frameworks: [ "nsa" ]
+}
+
+describe('Kubescape scan history', ()=> {
+    let tmpdir : string
+    let report : KubescapeReport
+
+    beforeEach(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-history-'))
+        report = parseReport(fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8'))
+    })
+
+    afterEach(()=> {
+        fs.rmSync(tmpdir, { recursive: true, force: true })
+    })
+
+    it('Should save, list and load scans', async ()=> {
+        const history = KubescapeHistory.inBaseDirectory(tmpdir)
+        const first = await history.save(report, TARGET, new Date("2024-06-01T10:00:00Z"))
+        const second = await history.save(report, { ...TARGET, type: "yaml", target: "/work/app.yaml", context: undefined },
+            new Date("2024-06-02T10:00:00Z"))
+
+        expect(history.directory).toBe(path.join(tmpdir, "history"))
+        expect(first).toMatchObject({ ...TARGET, timestamp: "2024-06-01T10:00:00.000Z", score: 37.5 })
+        expect((await history.list()).map(entry => entry.id)).toEqual([ second.id, first.id ])
+        expect(await history.load(first.id)).toEqual(report)
+    })
+
+    it('Should delete scans', async ()=> {
+        const history = KubescapeHistory.inBaseDirectory(tmpdir)
+        const entry = await history.save(report, TARGET)
+
+        expect(await history.delete(entry.id)).toBe(true)
+        expect(await history.delete(entry.id)).toBe(false)
+        expect(await history.list()).toEqual([])
+        await expect(history.load(entry.id)).rejects.toThrow(/not found/)
+        await expect(history.load("../../etc/passwd")).rejects.toThrow(/not found/)
+    })
+
+    it('Should list nothing before the first scan', async ()=> {
+        expect(await KubescapeHistory.inBaseDirectory(tmpdir).list()).toEqual([])
+    })
+
+    it('Should keep at most the configured number of scans', async ()=> {
+        const history = KubescapeHistory.inBaseDirectory(tmpdir, { maxEntries: 2 })
+        for (let day = 1; day <= 4; day++) {
+            await history.save(report, TARGET, new Date(Date.UTC(2024, 5, day)))
+        }
+
+        expect((await history.list()).map(entry => entry.timestamp))
+            .toEqual([ "2024-06-04T00:00:00.000Z", "2024-06-03T00:00:00.000Z" ])
+        expect(fs.readdirSync(history.directory)).toHaveLength(4)
+    })
+
+    it('Should drop scans by age and size but keep the newest', async ()=> {
+        const history = KubescapeHistory.inBaseDirectory(tmpdir, { maxAge: 2 * DAY, maxSize: 1 })
+        const now = new Date("2024-06-10T00:00:00Z")
+        const old = await history.save(report, TARGET, new Date(now.getTime() - 3 * DAY))
+        const recent = await history.save(report, TARGET, new Date(now.getTime() - DAY))
+
+        const dropped = await history.prune(now)
+
+        expect(dropped).toEqual([])
+        expect((await history.list()).map(entry => entry.id)).toEqual([ recent.id ])
+        expect(old.size).toBeGreaterThan(1)
+    })
+})
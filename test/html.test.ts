@@ -0,0 +1,49 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { parseReport, toHtml, KubescapeReport, KubescapeStatus } from '../src/index'
+
+describe('Kubescape HTML renderer', ()=> {
+    let report : KubescapeReport
+
+    beforeEach(()=> {
+        report = parseReport(fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8'))
+        report.summaryDetails.controls["C-0057"].remediation = "Set <code>privileged</code> to false"
+    })
+
+    it('Should not load anything from the network', ()=> {
+        const html = toHtml(report)
+
+        expect(html).toMatch(/^<!DOCTYPE html>/)
+        expect(html).not.toMatch(/(src|href)=/)
+    })
+
+    it('Should show framework scores', ()=> {
+        expect(toHtml(report)).toMatch(/<div>NSA<\/div>\s*<div class="score">37\.5%<\/div>/)
+    })
+
+    it('Should list sortable controls with escaped remediation', ()=> {
+        const html = toHtml(report, { title: "Audit" })
+
+        expect(html).toContain("<title>Audit</title>")
+        expect(html).toContain(`<td data-value="C-0057">C-0057</td>`)
+        expect(html).toContain(`<td data-value="3" class="severity-High">High</td>`)
+        expect(html).toContain("Set &lt;code&gt;privileged&lt;/code&gt; to false")
+    })
+
+    it('Should escape the status of controls', ()=> {
+        report.summaryDetails.controls["C-0057"].status = `failed" onclick="alert(1)` as KubescapeStatus
+        const html = toHtml(report)
+
+        expect(html).toContain(`class="status-failed&quot; onclick=&quot;alert(1)"`)
+        expect(html).not.toContain(`onclick="alert(1)"`)
+    })
+
+    it('Should drill down into failed resources', ()=> {
+        const html = toHtml(report)
+
+        expect(html).toContain("<summary>Deployment/nginx-deployment &mdash; 4 failed")
+        expect(html).toContain("<summary>cache/Deployment/redis &mdash; 1 failed")
+        expect(html).toContain("<code>spec.template.spec.containers[0].securityContext.readOnlyRootFilesystem = true</code>")
+    })
+})
@@ -0,0 +1,142 @@
+import * as http from 'http'
+import * as net from 'net'
+import { AddressInfo } from 'net'
+
+import { HttpClient, isNoProxy } from '../src/http'
+
+describe('Kubescape http client', ()=> {
+    let target : http.Server
+    let proxy : http.Server
+    let targetUrl : string
+    let proxyUrl : string
+    let tunnels : string[]
+    let requests : http.IncomingHttpHeaders[]
+
+    const listen = async (server : http.Server) => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    }
+
+    beforeAll(async ()=> {
+        tunnels = []
+        requests = []
+
+        target = http.createServer((req, res) => {
+            requests.push(req.headers)
+            res.end("kubescape")
+        })
+        targetUrl = await listen(target)
+
+        /* minimal CONNECT proxy */
+        proxy = http.createServer()
+        proxy.on('connect', (req : http.IncomingMessage, client : net.Socket, head : Buffer) => {
+            tunnels.push(req.url)
+            const [ host, port ] = req.url.split(':')
+            const upstream = net.connect(Number(port), host, () => {
+                client.write("HTTP/1.1 200 Connection Established\r\n\r\n")
+                upstream.write(head)
+                upstream.pipe(client)
+                client.pipe(upstream)
+            })
+        })
+        proxyUrl = await listen(proxy)
+    })
+
+    beforeEach(()=> {
+        tunnels.length = 0
+        requests.length = 0
+    })
+
+    it('Should match NO_PROXY entries', ()=> {
+        const url = new URL("https://api.github.com/repos")
+
+        expect(isNoProxy(undefined, url)).toBe(false)
+        expect(isNoProxy("*", url)).toBe(true)
+        expect(isNoProxy("localhost, github.com", url)).toBe(true)
+        expect(isNoProxy(".github.com", url)).toBe(true)
+        expect(isNoProxy("github.com:8443", url)).toBe(false)
+        expect(isNoProxy("api.github.com:443", url)).toBe(true)
+        expect(isNoProxy("hub.com", url)).toBe(false)
+    })
+
+    it('Should prefer explicit settings over the environment', ()=> {
+        const url = new URL("https://github.com")
+        const env = process.env
+        process.env = { ...env, HTTPS_PROXY: "http://env-proxy:3128", NO_PROXY: "" }
+
+        try {
+            expect(new HttpClient().proxyFor(url)).toBe("http://env-proxy:3128")
+            expect(new HttpClient({ proxy: "http://proxy:8080" }).proxyFor(url)).toBe("http://proxy:8080")
+            expect(new HttpClient({ proxy: "http://proxy:8080", noProxy: "github.com" }).proxyFor(url)).toBeUndefined()
+        } finally {
+            process.env = env
+        }
+    })
+
+    it('Should tunnel requests through the proxy', async ()=> {
+        const client = new HttpClient({ proxy: proxyUrl, noProxy: "" })
+        const res = await client.fetch(`${targetUrl}/asset`)
+
+        expect(await res.text()).toBe("kubescape")
+        expect(tunnels).toEqual([ targetUrl.replace("http://", "") ])
+        client.dispose()
+    })
+
+    it('Should only send the GitHub token to GitHub', async ()=> {
+        const client = new HttpClient({ githubToken: "secret", noProxy: "*" })
+        await (await client.fetch(`${targetUrl}/asset`)).text()
+
+        expect(tunnels).toEqual([])
+        expect(requests[0].authorization).toBeUndefined()
+    })
+
+    it('Should send host headers only to the requested host', async ()=> {
+        const origin = http.createServer((req, res) => {
+            requests.push(req.headers)
+            if (req.url === "/asset") {
+                res.writeHead(302, { location: `${targetUrl}/blob` })
+                return res.end()
+            }
+            res.writeHead(302, { location: "/asset" })
+            return res.end()
+        })
+        const originUrl = await listen(origin)
+
+        try {
+            const client = new HttpClient({ noProxy: "*" })
+            const res = await client.fetch(`${originUrl}/latest`, { hostHeaders: { "X-JFrog-Art-Api": "secret" } })
+
+            expect(await res.text()).toBe("kubescape")
+            expect(requests.map(headers => headers['x-jfrog-art-api'])).toEqual([ "secret", "secret", undefined ])
+        } finally {
+            await new Promise(resolve => origin.close(resolve))
+        }
+    })
+
+    it('Should stop running requests when disposed', async ()=> {
+        /* answers the headers and never the body */
+        const stalled = http.createServer((req, res) => {
+            res.writeHead(200, { 'content-length': 100 })
+            res.write("kube")
+        })
+        const stalledUrl = await listen(stalled)
+
+        try {
+            const client = new HttpClient({ noProxy: "*" })
+            const res = await client.fetch(`${stalledUrl}/asset`)
+            const body = res.text()
+            client.dispose()
+
+            await expect(body).rejects.toThrow(/abort/)
+            await expect(client.fetch(`${stalledUrl}/asset`)).rejects.toThrow(/abort/)
+        } finally {
+            stalled.closeAllConnections()
+            await new Promise(resolve => stalled.close(resolve))
+        }
+    })
+
+    afterAll(async ()=> {
+        await new Promise(resolve => proxy.close(resolve))
+        await new Promise(resolve => target.close(resolve))
+    })
+})
@@ -2,7 +2,7 @@ import * as fs from 'fs'
 import * as path from 'path'
 import AbortController from 'abort-controller'
 
-import { KubescapeApi, KubescapeUi, IKubescapeConfig } from '../src/index'
+import { KubescapeApi, KubescapeUi, IKubescapeConfig, renderKubescapeCommand } from '../src/index'
 
 const seconds = (n : number) => n * 1000
 const minutes = (n : number) => n * 1000 * 60 
@@ -66,7 +66,8 @@ describe('Kubescape Installation', ()=> {
             frameworksDirectory: frameworkdir,
             baseDirectory: tmpdir,
             requiredFrameworks: requestedFrameworks,
-            scanFrameworks: requestedFrameworks
+            scanFrameworks: requestedFrameworks,
+            binaryUrl: undefined
         }
 
         kubescapeApi = KubescapeApi.instance
@@ -97,7 +98,7 @@ describe('Kubescape Installation', ()=> {
 
         expect(Object.keys(priv1Res).length).toBeGreaterThan(0)
         const resToFramework : any = {}
-        priv1Res.forEach((r: { name: string })  => {
+        priv1Res.summaryDetails.frameworks.forEach(r => {
             resToFramework[r.name.toLowerCase()] = r
         })
 
@@ -107,22 +108,27 @@ describe('Kubescape Installation', ()=> {
         }
     }, minutes(2))
 
-    it ('Should build kubescape command with KUBECONFIG when provided', async() => {
-        expect(kubescapeApi._buildKubescapeCommand("scan")).toBe(`\"${kubescapeApi.path}\" scan`)
-        expect(kubescapeApi._buildKubescapeCommand("scan", "kubeconfig_path")).toBe(`KUBECONFIG=\"kubeconfig_path\" \"${kubescapeApi.path}\" scan`)
+    afterAll(() => {
+        fs.rmdirSync(tmpdir, { recursive: true })
+
+        expect(fs.existsSync(tmpdir)).toBeFalsy()
+    })
+})
 
-        // mock process platform to test kubescape command for windows
-        const originalPlatform = process.platform;
-        Object.defineProperty(process, 'platform', { get: () => "win32" });
-        expect(kubescapeApi._buildKubescapeCommand("scan", "kubeconfig_path")).toBe(`set \"KUBECONFIG=kubeconfig_path\" & \"${kubescapeApi.path}\" scan`)
-        Object.defineProperty(process, 'platform', {  
-            value: originalPlatform
+describe('Kubescape command rendering', ()=> {
+    it('Should quote arguments only when needed', ()=> {
+        const rendered = renderKubescapeCommand({
+            file: "/opt/kubescape",
+            args: [ "scan", "--output", "/tmp/my report.json", "--exclude-namespaces", "a,b" ],
+            env: {}
         })
+
+        expect(rendered).toBe(`"/opt/kubescape" scan --output "/tmp/my report.json" --exclude-namespaces a,b`)
     })
 
-    afterAll(() => {
-        fs.rmdirSync(tmpdir, { recursive: true })
+    it('Should escape shell characters for display', ()=> {
+        const rendered = renderKubescapeCommand({ file: "kubescape", args: [ `$(rm) "x"` ], env: {} })
 
-        expect(fs.existsSync(tmpdir)).toBeFalsy()
+        expect(rendered).toBe(`"kubescape" "\\$(rm) \\"x\\""`)
     })
 })
@@ -0,0 +1,449 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { AddressInfo } from 'net'
+
+import AbortController from 'abort-controller'
+
+import { chooseKubescapeAsset, install, parseChecksum, KubescapeUi } from '../src/index'
+
+const DIGEST = "a".repeat(64)
+const OTHER_DIGEST = "b".repeat(64)
+
+class QuietUi implements KubescapeUi {
+    errors : string[] = []
+    fractions : number[] = []
+
+    info(_msg: string): void {}
+    error(msg: string): void {
+        this.errors.push(msg)
+    }
+    debug(_msg: string): void {}
+    showHelp(_message: string, _url: string): void {}
+    slow<T>(_title: string, work: () => Promise<T>): Promise<T> {
+        return work()
+    }
+    progress<T>(_title: string, _cancel: any, work: (progress: (fraction: number) => void) => Promise<T>): Promise<T> {
+        return work(fraction => this.fractions.push(fraction))
+    }
+}
+
+describe('Kubescape checksum verification', ()=> {
+    it('Should read a single bare digest', ()=> {
+        expect(parseChecksum(`${DIGEST}\n`, "kubescape-ubuntu-latest")).toBe(DIGEST)
+    })
+
+    it('Should pick the digest of the requested asset', ()=> {
+        const text = [
+            `${OTHER_DIGEST}  kubescape-macos-latest`,
+            `${DIGEST.toUpperCase()} *kubescape-ubuntu-latest`,
+        ].join("\n")
+
+        expect(parseChecksum(text, "kubescape-ubuntu-latest")).toBe(DIGEST)
+        expect(parseChecksum(text, "kubescape-macos-latest")).toBe(OTHER_DIGEST)
+    })
+
+    it('Should not guess a digest for an unlisted asset', ()=> {
+        const text = `${DIGEST}  kubescape-macos-latest\n${OTHER_DIGEST}  kubescape.exe`
+
+        expect(parseChecksum(text, "kubescape-ubuntu-latest")).toBeUndefined()
+        expect(parseChecksum("not a checksum", "kubescape")).toBeUndefined()
+    })
+})
+
+describe('Kubescape asset resolution', ()=> {
+    const legacyAssets = [
+        "kubescape-ubuntu-latest", "kubescape-ubuntu-latest.sha256",
+        "kubescape-macos-latest", "kubescape-arm64-macos-latest",
+        "kubescape.exe", "kubescape-windows-latest.tar.gz"
+    ]
+    const currentAssets = [
+        "checksums.sha256",
+        "kubescape_3.0.0_linux_amd64", "kubescape_3.0.0_linux_amd64.tar.gz", "kubescape_3.0.0_linux_amd64.sbom",
+        "kubescape_3.0.0_linux_arm64", "kubescape_3.0.0_darwin_arm64.tar.gz",
+        "kubescape_3.0.0_windows_amd64.exe", "kubescape_3.0.0_windows_arm64.exe"
+    ]
+
+    it('Should pick legacy asset names', ()=> {
+        expect(chooseKubescapeAsset(legacyAssets, "linux", "x64")).toBe("kubescape-ubuntu-latest")
+        expect(chooseKubescapeAsset(legacyAssets, "darwin", "arm64")).toBe("kubescape-arm64-macos-latest")
+        expect(chooseKubescapeAsset(legacyAssets, "win32", "x64")).toBe("kubescape.exe")
+        expect(chooseKubescapeAsset(legacyAssets, "linux", "arm64")).toBeUndefined()
+    })
+
+    it('Should pick per OS and architecture asset names', ()=> {
+        expect(chooseKubescapeAsset(currentAssets, "linux", "x64")).toBe("kubescape_3.0.0_linux_amd64")
+        expect(chooseKubescapeAsset(currentAssets, "linux", "arm64")).toBe("kubescape_3.0.0_linux_arm64")
+        expect(chooseKubescapeAsset(currentAssets, "darwin", "arm64")).toBe("kubescape_3.0.0_darwin_arm64.tar.gz")
+        expect(chooseKubescapeAsset(currentAssets, "win32", "arm64")).toBe("kubescape_3.0.0_windows_arm64.exe")
+        expect(chooseKubescapeAsset(currentAssets, "darwin", "x64")).toBeUndefined()
+    })
+})
+
+describe('Kubescape release source', ()=> {
+    const version = "v9.9.9"
+    const token = "secret"
+    const assets = [
+        "kubescape_9.9.9_linux_amd64", "kubescape_9.9.9_linux_arm64",
+        "kubescape_9.9.9_darwin_amd64", "kubescape_9.9.9_darwin_arm64",
+        "kubescape_9.9.9_windows_amd64.exe"
+    ]
+    const binaries : { [version: string]: string } = {
+        [version]: `#!/bin/sh\necho "kubescape ${version}"\n`,
+        "v0.0.1": `#!/bin/sh\nexit 1\n`
+    }
+    let checksums : { [version: string]: string }
+    let server : http.Server
+    let apiUrl : string
+    let downloadUrlTemplate : string
+    let tmpdir : string
+
+    const sha256 = (text : string) => crypto.createHash('sha256').update(text).digest('hex')
+
+    beforeAll(async ()=> {
+        checksums = {}
+        for (let tag of Object.keys(binaries)) {
+            checksums[tag] = sha256(binaries[tag])
+        }
+
+        server = http.createServer((req, res) => {
+            if (req.headers['x-token'] !== token) {
+                res.writeHead(401)
+                return res.end()
+            }
+
+            const release = req.url.match(/^\/api\/releases\/tags\/(.+)$/)
+            if (release && binaries[release[1]]) {
+                res.writeHead(200, { 'content-type': 'application/json' })
+                return res.end(JSON.stringify({
+                    tag_name: release[1],
+                    assets: assets.map(name => ({ name: name, browser_download_url: `https://github.com/${name}` }))
+                }))
+            }
+
+            const download = req.url.match(/^\/download\/([^/]+)\/kubescape_[^/]+?(\.sha256)?$/)
+            if (download && binaries[download[1]]) {
+                res.writeHead(200)
+                return res.end(download[2] ? checksums[download[1]] : binaries[download[1]])
+            }
+
+            res.writeHead(404)
+            return res.end()
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+        const address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        apiUrl = `${address}/api`
+        downloadUrlTemplate = `${address}/download/{version}/{asset}`
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-install-'))
+    })
+
+    const kubescapePath = () => path.join(tmpdir, "kubescape")
+    const releaseSource = () => ({
+        apiUrl: apiUrl,
+        downloadUrlTemplate: downloadUrlTemplate,
+        token: token,
+        tokenHeader: "X-Token"
+    })
+
+    it('Should install from the configured release source', async ()=> {
+        const ui = new QuietUi
+        const installed = await install(version, undefined, tmpdir, ui, undefined, { releaseSource: releaseSource() })
+
+        expect(ui.errors).toEqual([])
+        expect(installed).toBe(true)
+        expect(fs.readFileSync(kubescapePath(), 'utf8')).toBe(binaries[version])
+    })
+
+    it('Should not reach the release source without the token', async ()=> {
+        const ui = new QuietUi
+        const source = { ...releaseSource(), token: undefined }
+        const installed = await install(version, undefined, tmpdir, ui, undefined, { releaseSource: source })
+
+        expect(installed).toBe(false)
+        expect(ui.errors.length).toBeGreaterThan(0)
+    })
+
+    it('Should refuse a binary with a mismatching checksum', async ()=> {
+        const ui = new QuietUi
+        const installed = await install(version, undefined, tmpdir, ui, undefined,
+            { releaseSource: releaseSource(), sha256: DIGEST })
+
+        expect(installed).toBe(false)
+        expect(ui.errors.some(msg => msg.includes("Checksum verification failed"))).toBe(true)
+        expect(fs.readFileSync(kubescapePath(), 'utf8')).toBe(binaries[version])
+    })
+
+    it('Should keep the working binary when the new one is broken', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v0.0.1", undefined, tmpdir, ui, undefined, { releaseSource: releaseSource() })
+
+        expect(installed).toBe(false)
+        expect(fs.readFileSync(kubescapePath(), 'utf8')).toBe(binaries[version])
+        expect(fs.readdirSync(tmpdir)).toEqual([ "kubescape" ])
+    })
+
+    it('Should not send the token to the hosts downloads redirect to', async ()=> {
+        const blobTokens : string[] = []
+        const blob = http.createServer((req, res) => {
+            blobTokens.push(req.headers['x-token'] as string)
+            res.writeHead(200)
+            return res.end(req.url.endsWith(".sha256") ? checksums[version] : binaries[version])
+        })
+        await new Promise<void>(resolve => blob.listen(0, '127.0.0.1', resolve))
+        const blobUrl = `http://127.0.0.1:${(blob.address() as AddressInfo).port}`
+
+        /* a mirror handing the files over to blob storage */
+        const mirror = http.createServer((req, res) => {
+            if (req.headers['x-token'] !== token) {
+                res.writeHead(401)
+                return res.end()
+            }
+            res.writeHead(302, { location: `${blobUrl}${req.url}` })
+            return res.end()
+        })
+        await new Promise<void>(resolve => mirror.listen(0, '127.0.0.1', resolve))
+        const mirrorUrl = `http://127.0.0.1:${(mirror.address() as AddressInfo).port}`
+
+        try {
+            const ui = new QuietUi
+            const installed = await install(version, undefined, tmpdir, ui, undefined, {
+                releaseSource: { ...releaseSource(), downloadUrlTemplate: `${mirrorUrl}/download/{version}/{asset}` }
+            })
+
+            expect(ui.errors).toEqual([])
+            expect(installed).toBe(true)
+            expect(blobTokens.length).toBeGreaterThan(0)
+            expect(blobTokens.every(received => received === undefined)).toBe(true)
+        } finally {
+            await new Promise(resolve => mirror.close(resolve))
+            await new Promise(resolve => blob.close(resolve))
+        }
+    })
+
+    it('Should not send the token to a custom download address', async ()=> {
+        const customTokens : string[] = []
+        const custom = http.createServer((req, res) => {
+            customTokens.push(req.headers['x-token'] as string)
+            res.writeHead(200)
+            return res.end(req.url.endsWith(".sha256") ? checksums[version] : binaries[version])
+        })
+        await new Promise<void>(resolve => custom.listen(0, '127.0.0.1', resolve))
+        const customUrl = `http://127.0.0.1:${(custom.address() as AddressInfo).port}`
+
+        try {
+            const ui = new QuietUi
+            const installed = await install(version, `${customUrl}/kubescape`, tmpdir, ui, undefined,
+                { releaseSource: releaseSource() })
+
+            expect(ui.errors).toEqual([])
+            expect(installed).toBe(true)
+            /* the binary and its published checksum */
+            expect(customTokens.length).toBe(2)
+            expect(customTokens.every(received => received === undefined)).toBe(true)
+        } finally {
+            await new Promise(resolve => custom.close(resolve))
+        }
+    })
+
+    afterAll(async ()=> {
+        await new Promise(resolve => server.close(resolve))
+        fs.rmSync(tmpdir, { recursive: true })
+    })
+})
+
+describe('Kubescape binary replacement', ()=> {
+    const working = `#!/bin/sh\necho kubescape\n`
+    /* passes the check of the download, fails once moved in place */
+    const breaksInPlace = `#!/bin/sh\ncase "$0" in *.download) exit 0 ;; esac\nexit 1\n`
+    let server : http.Server
+    let address : string
+    let tmpdir : string
+
+    const sha256 = (text : string) => crypto.createHash('sha256').update(text).digest('hex')
+
+    beforeAll(async ()=> {
+        server = http.createServer((req, res) => {
+            res.writeHead(req.url === "/breaks-in-place/kubescape" ? 200 : 404)
+            return res.end(req.url === "/breaks-in-place/kubescape" ? breaksInPlace : undefined)
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    beforeEach(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-replace-'))
+        fs.writeFileSync(path.join(tmpdir, "kubescape"), working, { mode: 0o755 })
+    })
+
+    it('Should roll back to the previous binary when the new one fails in place', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v1.0.0", `${address}/breaks-in-place/kubescape`, tmpdir, ui, undefined,
+            { sha256: sha256(breaksInPlace) })
+
+        expect(installed).toBe(false)
+        expect(ui.errors).toContain("Installed kubescape binary is not working")
+        expect(fs.readFileSync(path.join(tmpdir, "kubescape"), 'utf8')).toBe(working)
+        expect(fs.readdirSync(tmpdir)).toEqual([ "kubescape" ])
+    })
+
+    afterEach(()=> {
+        fs.rmSync(tmpdir, { recursive: true })
+    })
+
+    afterAll(async ()=> {
+        await new Promise(resolve => server.close(resolve))
+    })
+})
+
+describe('Kubescape download retries', ()=> {
+    const binary = `#!/bin/sh\n${"# padding to split the download in the middle\n".repeat(100)}echo kubescape\n`
+    /* the asset before it was replaced, of the same size */
+    const previous = binary.replace(/padding/g, "PADDING")
+    const digest = crypto.createHash('sha256').update(binary).digest('hex')
+    const download = { retries: 2, retryDelay: 10, requestTimeout: 200 }
+    const half = Math.floor(binary.length / 2)
+    let server : http.Server
+    let address : string
+    let tmpdir : string
+    let ranges : string[]
+    let ifRanges : string[]
+    let hits : { [url: string]: number }
+
+    beforeAll(async ()=> {
+        server = http.createServer((req, res) => {
+            hits[req.url] = (hits[req.url] ?? 0) + 1
+            ranges.push(req.headers.range)
+            ifRanges.push(req.headers['if-range'] as string)
+
+            /* accepts the connection and never answers */
+            if (req.url.startsWith("/hanging/")) return undefined
+
+            const range = req.headers.range?.match(/^bytes=(\d+)-$/)
+            const start = range ? Number(range[1]) : 0
+            const body = binary.substring(start)
+
+            switch (req.url) {
+                case "/flaky/kubescape":
+                    if (range) {
+                        res.writeHead(206, {
+                            'content-length': body.length,
+                            'content-range': `bytes ${start}-${binary.length - 1}/${binary.length}`
+                        })
+                        return res.end(body)
+                    }
+                    /* drop the connection in the middle of the first download */
+                    res.writeHead(200, { 'content-length': binary.length })
+                    return res.write(body.substring(0, half), () => res.destroy())
+                case "/replaced/kubescape":
+                    if (hits[req.url] === 1) {
+                        /* drop the connection in the middle of the download of the previous asset */
+                        res.writeHead(200, { 'content-length': previous.length, 'etag': '"previous"' })
+                        return res.write(previous.substring(0, half), () => res.destroy())
+                    }
+                    if (range && !req.headers['if-range']) {
+                        res.writeHead(206, {
+                            'content-length': body.length,
+                            'content-range': `bytes ${start}-${binary.length - 1}/${binary.length}`
+                        })
+                        return res.end(body)
+                    }
+                    /* the validator does not match the replaced asset */
+                    res.writeHead(200, { 'content-length': binary.length, 'etag': '"current"' })
+                    return res.end(binary)
+                case "/stalled/kubescape":
+                    res.writeHead(200, { 'content-length': binary.length })
+                    return res.write(body.substring(0, 10))
+                default:
+                    res.writeHead(404)
+                    return res.end()
+            }
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    beforeEach(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-download-'))
+        ranges = []
+        ifRanges = []
+        hits = {}
+    })
+
+    it('Should resume a dropped download', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v1.0.0", `${address}/flaky/kubescape`, tmpdir, ui, undefined,
+            { sha256: digest, download: download })
+
+        expect(ui.errors).toEqual([])
+        expect(installed).toBe(true)
+        expect(fs.readFileSync(path.join(tmpdir, "kubescape"), 'utf8')).toBe(binary)
+        expect(ranges).toEqual([ undefined, `bytes=${half}-` ])
+        expect(Math.max(...ui.fractions)).toBe(1)
+    })
+
+    it('Should download again a file replaced between attempts', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v1.0.0", `${address}/replaced/kubescape`, tmpdir, ui, undefined,
+            { sha256: digest, download: download })
+
+        expect(ui.errors).toEqual([])
+        expect(installed).toBe(true)
+        expect(fs.readFileSync(path.join(tmpdir, "kubescape"), 'utf8')).toBe(binary)
+        expect(ranges).toEqual([ undefined, `bytes=${half}-` ])
+        expect(ifRanges).toEqual([ undefined, '"previous"' ])
+    })
+
+    it('Should not retry missing files', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v1.0.0", `${address}/missing/kubescape`, tmpdir, ui, undefined,
+            { sha256: digest, download: download })
+
+        expect(installed).toBe(false)
+        expect(hits["/missing/kubescape"]).toBe(1)
+    })
+
+    it('Should give up on stalled downloads', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v1.0.0", `${address}/stalled/kubescape`, tmpdir, ui, undefined,
+            { sha256: digest, download: download })
+
+        expect(installed).toBe(false)
+        expect(hits["/stalled/kubescape"]).toBe(download.retries + 1)
+        expect(ui.errors.some(msg => msg.includes("timed out"))).toBe(true)
+    })
+
+    it('Should give up on a published checksum that never comes', async ()=> {
+        const ui = new QuietUi
+        const installed = await install("v1.0.0", `${address}/hanging/kubescape`, tmpdir, ui, undefined,
+            { download: download })
+
+        expect(installed).toBe(false)
+        expect(hits["/hanging/kubescape.sha256"]).toBe(1)
+        expect(ui.errors.some(msg => msg.includes("No checksum available"))).toBe(true)
+    })
+
+    it('Should stop waiting for the release lookup when cancelled', async ()=> {
+        const ui = new QuietUi
+        const cancel = new AbortController
+        setTimeout(() => cancel.abort(), 50)
+        const installed = await install("latest", undefined, tmpdir, ui, cancel, {
+            releaseSource: { apiUrl: `${address}/hanging/api` },
+            download: { ...download, requestTimeout: 0 }
+        })
+
+        expect(installed).toBe(false)
+        expect(hits["/hanging/api/releases/latest"]).toBe(1)
+    })
+
+    afterEach(()=> {
+        fs.rmSync(tmpdir, { recursive: true })
+    })
+
+    afterAll(async ()=> {
+        server.closeAllConnections()
+        await new Promise(resolve => server.close(resolve))
+    })
+})
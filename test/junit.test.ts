@@ -0,0 +1,37 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { parseReport, toJUnit, KubescapeReport } from '../src/index'
+
+describe('Kubescape JUnit renderer', ()=> {
+    let report : KubescapeReport
+
+    beforeEach(()=> {
+        report = parseReport(fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8'))
+        report.summaryDetails.controls["C-0057"].remediation = "Set privileged to false & drop <ALL>"
+    })
+
+    it('Should write a test suite per framework', ()=> {
+        const xml = toJUnit(report)
+
+        expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="kubescape" tests="12" failures="8" errors="0">/)
+        expect(xml).toContain(`<testsuite name="NSA" tests="8" failures="5" errors="0" skipped="0">`)
+        expect(xml).toContain(`<testsuite name="MITRE" tests="4" failures="3" errors="0" skipped="0">`)
+    })
+
+    it('Should write failures with their remediation', ()=> {
+        const xml = toJUnit(report)
+
+        expect(xml).toContain(
+            `<testcase classname="NSA.C-0057" name="C-0057 Privileged container - Deployment/nginx-deployment">\n` +
+            `      <failure message="Privileged container failed for Deployment/nginx-deployment" type="High">` +
+            `Set privileged to false &amp; drop &lt;ALL&gt;\nspec.template.spec.containers[0].securityContext.privileged</failure>`)
+        expect(xml).toContain(`<testcase classname="NSA.C-0057" name="C-0057 Privileged container - cache/Deployment/redis"/>`)
+    })
+
+    it('Should write a single suite without frameworks', ()=> {
+        report.summaryDetails.frameworks = []
+
+        expect(toJUnit(report)).toContain(`<testsuite name="kubescape" tests="8" failures="5" errors="0" skipped="0">`)
+    })
+})
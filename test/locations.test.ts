@@ -0,0 +1,63 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { locateFindings, parseObjectPath, parseReport } from '../src/index'
+
+const ASSETS = path.resolve('test', 'assets')
+
+describe('Kubescape finding locations', ()=> {
+    const report = parseReport(fs.readFileSync(path.join(ASSETS, 'report.json'), 'utf8'))
+    const yamlText = fs.readFileSync(path.join(ASSETS, 'deployments.yaml'), 'utf8')
+
+    it('Should split object paths', ()=> {
+        expect(parseObjectPath("spec.containers[0].securityContext")).toEqual([ "spec", "containers", 0, "securityContext" ])
+        expect(parseObjectPath("metadata.labels['app.kubernetes.io/name']"))
+            .toEqual([ "metadata", "labels", "app.kubernetes.io/name" ])
+    })
+
+    it('Should match resources to their documents', ()=> {
+        const locations = locateFindings(report, yamlText)
+
+        expect(locations.map(l => [ l.resource.name, l.documentIndex ])).toEqual([ [ "nginx-deployment", 0 ], [ "redis", 1 ] ])
+        expect(locations[0].range.start).toEqual({ line: 1, column: 1 })
+        expect(locations[1].range.start).toEqual({ line: 25, column: 1 })
+    })
+
+    it('Should locate failed paths', ()=> {
+        const nginx = locateFindings(report, yamlText)[0]
+        const privileged = nginx.findings.find(f => f.controlID === "C-0057")
+
+        expect(privileged).toMatchObject({ type: "failed", exact: true, status: "failed" })
+        expect(privileged.range).toEqual({ start: { line: 23, column: 11 }, end: { line: 23, column: 27 } })
+    })
+
+    it('Should locate missing fix paths at their closest parent', ()=> {
+        const nginx = locateFindings(report, yamlText)[0]
+        const readOnly = nginx.findings.find(f => f.controlID === "C-0017")
+        const limits = nginx.findings.filter(f => f.controlID === "C-0009")
+
+        expect(readOnly).toMatchObject({ type: "fix", exact: false, fixValue: "true" })
+        expect(readOnly.range.start).toEqual({ line: 22, column: 9 })
+        /* the container has no resources at all */
+        expect(limits.map(f => f.range.start)).toEqual([ { line: 18, column: 9 }, { line: 18, column: 9 } ])
+    })
+
+    it('Should skip resources missing from the content', ()=> {
+        const locations = locateFindings(report, yamlText.split("---")[1])
+
+        expect(locations.map(l => [ l.resource.name, l.documentIndex ])).toEqual([ [ "redis", 0 ] ])
+    })
+
+    it('Should locate items of lists', ()=> {
+        const listText = [
+            "apiVersion: v1",
+            "kind: List",
+            "items:",
+            "- " + yamlText.split("---")[1].trim().split("\n").join("\n  ")
+        ].join("\n")
+        const locations = locateFindings(report, listText)
+
+        expect(locations).toHaveLength(1)
+        expect(locations[0].range.start).toEqual({ line: 4, column: 3 })
+    })
+})
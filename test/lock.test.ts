@@ -0,0 +1,99 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { lockDirectory } from '../src/lock'
+
+describe('Kubescape install lock', ()=> {
+    const options = { staleTimeout: 60 * 1000, pollInterval: 10 }
+    let tmpdir : string
+    let lockPath : string
+
+    beforeEach(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-lock-'))
+        lockPath = path.join(tmpdir, ".kubescape.lock")
+    })
+
+    it('Should make a second holder wait for the first', async ()=> {
+        const events : string[] = []
+        const release = await lockDirectory(tmpdir, work => work(), undefined, options)
+        expect(fs.existsSync(lockPath)).toBe(true)
+
+        const waiting = lockDirectory(tmpdir, work => {
+            events.push("waiting")
+            return work()
+        }, undefined, options).then(secondRelease => {
+            events.push("acquired")
+            return secondRelease
+        })
+
+        await new Promise(resolve => setTimeout(resolve, 50))
+        expect(events).toEqual([ "waiting" ])
+
+        await release()
+        const secondRelease = await waiting
+        expect(events).toEqual([ "waiting", "acquired" ])
+
+        await secondRelease()
+        expect(fs.existsSync(lockPath)).toBe(false)
+    })
+
+    it('Should take over a lock left by a dead process', async ()=> {
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), createdAt: "" }))
+
+        const release = await lockDirectory(tmpdir, work => work(), undefined, options)
+        expect(JSON.parse(fs.readFileSync(lockPath, 'utf8')).pid).toBe(process.pid)
+        await release()
+    })
+
+    it('Should take over a lock that was not refreshed', async ()=> {
+        fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, hostname: "elsewhere", createdAt: "" }))
+        const past = new Date(Date.now() - 2 * options.staleTimeout)
+        fs.utimesSync(lockPath, past, past)
+
+        const release = await lockDirectory(tmpdir, work => work(), undefined, options)
+        expect(JSON.parse(fs.readFileSync(lockPath, 'utf8')).hostname).toBe(os.hostname())
+        await release()
+    })
+
+    it('Should let a single waiter take over a stale lock', async ()=> {
+        for (let round = 0; round < 20; round++) {
+            fs.writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), createdAt: "" }))
+
+            /* both waiters see the stale lock before any of them removes it */
+            let ready : () => void
+            let waiters = 0
+            const bothWaiting = new Promise<void>(resolve => ready = resolve)
+            const wait = async (work : () => Promise<void>) => {
+                if (++waiters === 2) ready()
+                await bothWaiting
+                return work()
+            }
+
+            let holders = 0
+            let maxHolders = 0
+            const hold = async () => {
+                const release = await lockDirectory(tmpdir, wait, undefined, options)
+                maxHolders = Math.max(maxHolders, ++holders)
+                await new Promise(resolve => setTimeout(resolve, 20))
+                holders--
+                await release()
+            }
+
+            await Promise.all([ hold(), hold() ])
+            expect(maxHolders).toBe(1)
+        }
+    })
+
+    it('Should stop waiting when aborted', async ()=> {
+        const release = await lockDirectory(tmpdir, work => work(), undefined, options)
+        const abort = { signal: { aborted: true } }
+
+        await expect(lockDirectory(tmpdir, work => work(), abort, options)).rejects.toThrow(/aborted/)
+        await release()
+    })
+
+    afterEach(()=> {
+        fs.rmSync(tmpdir, { recursive: true })
+    })
+})
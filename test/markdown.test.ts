@@ -0,0 +1,36 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { parseReport, toMarkdown, KubescapeReport } from '../src/index'
+
+describe('Kubescape Markdown renderer', ()=> {
+    let report : KubescapeReport
+
+    beforeEach(()=> {
+        report = parseReport(fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8'))
+        report.summaryDetails.controls["C-0057"].remediation = "Set privileged | escalation to false"
+    })
+
+    it('Should summarize framework scores', ()=> {
+        const markdown = toMarkdown(report)
+
+        expect(markdown).toMatch(/^## Kubescape scan\n\n\*\*Score:\*\* 37\.5%\n/)
+        expect(markdown).toContain("| NSA | 37.5% | 4 / 4 |")
+    })
+
+    it('Should list the top failing controls by severity', ()=> {
+        const rows = toMarkdown(report, { topControls: 2 }).split("\n").filter(line => line.startsWith("| High"))
+
+        expect(rows).toEqual([
+            "| High | C-0057 Privileged container | 1 | Set privileged \\| escalation to false |",
+            "| High | C-0009 Resource limits | 1 |  |"
+        ])
+        expect(toMarkdown(report, { topControls: 2 })).toContain("_and 2 more failing controls_")
+    })
+
+    it('Should tell when nothing failed', ()=> {
+        report.results = []
+
+        expect(toMarkdown(report, { title: "Manifests" })).toMatch(/^## Manifests\n[^]*No failed controls/)
+    })
+})
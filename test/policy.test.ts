@@ -0,0 +1,41 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { evaluatePolicy, parseReport } from '../src/index'
+
+describe('Kubescape policy', ()=> {
+    const report = parseReport(fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8'))
+
+    it('Should pass an empty policy', ()=> {
+        expect(evaluatePolicy(report, {})).toEqual({ passed: true, violations: [] })
+    })
+
+    it('Should check the overall and framework scores', ()=> {
+        const verdict = evaluatePolicy(report, { minScore: 30, minFrameworkScores: { nsa: 30, mitre: 30, cis: 50 } })
+
+        expect(verdict.passed).toBe(false)
+        expect(verdict.violations).toEqual([
+            { rule: "minFrameworkScore", subject: "MITRE", expected: 30, actual: 25,
+                message: "Framework MITRE compliance score 25.0% is below 30.0%" },
+            { rule: "minFrameworkScore", subject: "cis", expected: 50, actual: "not scanned",
+                message: "Framework cis was not scanned" }
+        ])
+        expect(evaluatePolicy(report, { minFrameworkScores: { "*": 40 } }).violations.map(v => v.subject))
+            .toEqual([ "NSA", "MITRE" ])
+    })
+
+    it('Should limit failures per severity', ()=> {
+        const verdict = evaluatePolicy(report, { maxFailures: { High: 1, Medium: 1, Low: 5 } })
+
+        expect(verdict.violations.map(v => [ v.subject, v.actual ])).toEqual([ [ "High", 2 ] ])
+    })
+
+    it('Should forbid controls', ()=> {
+        const verdict = evaluatePolicy(report, { forbiddenControls: [ "C-0017", "C-0034" ] })
+
+        expect(verdict.violations).toEqual([ {
+            rule: "forbiddenControl", subject: "C-0017", expected: 0, actual: 2,
+            message: "Forbidden control C-0017 (Immutable container filesystem) failed for 2 resources"
+        } ])
+    })
+})
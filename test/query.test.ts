@@ -0,0 +1,62 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { KubescapeReportQuery, parseReport, resourceRef } from '../src/index'
+
+const REPORT_TEXT = fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8')
+
+describe('Kubescape report query', ()=> {
+    let query : KubescapeReportQuery
+
+    beforeEach(()=> {
+        const report = parseReport(REPORT_TEXT)
+        report.summaryDetails.controls["C-0057"].remediation = "Set privileged to false"
+        query = new KubescapeReportQuery(report)
+    })
+
+    it('Should list a finding per resource and control', ()=> {
+        expect(query.findings()).toHaveLength(8)
+    })
+
+    it('Should find the resources failing a control', ()=> {
+        const findings = query.findings({ controlID: "C-0057", status: "failed" })
+
+        expect(findings.map(f => f.resource.name)).toEqual([ "nginx-deployment" ])
+        expect(findings[0].paths).toEqual([ { failedPath: "spec.template.spec.containers[0].securityContext.privileged" } ])
+        expect(findings[0].remediation).toBe("Set privileged to false")
+    })
+
+    it('Should filter by severity and namespace', ()=> {
+        expect(query.findings({ severity: "Low", status: "failed", namespace: "cache" }).map(f => f.controlID))
+            .toEqual([ "C-0017" ])
+        expect(query.findings({ severity: [ "High", "Critical" ], status: "failed", namespace: "cache" })).toEqual([])
+    })
+
+    it('Should filter by framework and kind ignoring case', ()=> {
+        expect(query.findings({ framework: "mitre", kind: "deployment", status: "failed" }).map(f => f.controlID))
+            .toEqual([ "C-0057", "C-0017", "C-0017" ])
+    })
+
+    it('Should group findings by resource', ()=> {
+        const resources = query.byResource({ status: "failed" })
+
+        expect(resources.map(r => r.resource.name)).toEqual([ "nginx-deployment", "redis" ])
+        expect(resources[0].findings).toHaveLength(4)
+        expect(resources[1].source).toMatchObject({ relativePath: "deployments.yaml" })
+    })
+
+    it('Should group findings by control', ()=> {
+        const controls = query.byControl({ status: "failed" })
+
+        expect(controls.map(c => c.controlID)).toEqual([ "C-0057", "C-0017", "C-0013", "C-0009" ])
+        expect(controls[1]).toMatchObject({ severity: "Low", frameworks: [ "NSA", "MITRE" ] })
+        expect(controls[1].findings.map(f => f.resource.name)).toEqual([ "nginx-deployment", "redis" ])
+    })
+
+    it('Should read resource identity from the resource ID', ()=> {
+        expect(resourceRef("path=2735113437/api=apps/v1/cache/Deployment/redis", undefined))
+            .toEqual({ apiVersion: "apps/v1", kind: "Deployment", name: "redis", namespace: "cache" })
+        expect(resourceRef("/v1//Namespace/default", undefined))
+            .toEqual({ apiVersion: "v1", kind: "Namespace", name: "default", namespace: undefined })
+    })
+})
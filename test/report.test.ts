@@ -0,0 +1,56 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { KubescapeReportError, parseReport, scoreFactorToSeverity, validateReport } from '../src/report'
+
+const REPORT_TEXT = fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8')
+
+describe('Kubescape report', ()=> {
+    it('Should parse a v2 report', ()=> {
+        const report = parseReport(REPORT_TEXT)
+
+        expect(report.summaryDetails.score).toBe(37.5)
+        expect(report.summaryDetails.frameworks.map(f => f.name)).toEqual([ "NSA", "MITRE" ])
+        expect(report.summaryDetails.controls["C-0057"].scoreFactor).toBe(8)
+        expect(report.results[0].controls[0].rules[0].paths[0].failedPath)
+            .toBe("spec.template.spec.containers[0].securityContext.privileged")
+    })
+
+    it('Should reject a truncated report', ()=> {
+        expect(() => parseReport(REPORT_TEXT.substring(0, 100))).toThrow(KubescapeReportError)
+        expect(() => parseReport("")).toThrow(/empty/)
+    })
+
+    it('Should point at the malformed part of a report', ()=> {
+        const report = JSON.parse(REPORT_TEXT)
+        report.results[1].controls = null
+
+        let error : KubescapeReportError
+        try {
+            validateReport(report)
+        } catch (e) {
+            error = e
+        }
+        expect(error).toBeInstanceOf(KubescapeReportError)
+        expect(error.location).toBe("results[1].controls")
+    })
+
+    it('Should reject reports of the older format', ()=> {
+        expect(() => validateReport([ { name: "NSA" } ])).toThrow(KubescapeReportError)
+    })
+
+    it('Should fill the summary of empty scans', ()=> {
+        const report = validateReport({ summaryDetails: { score: 0 } })
+
+        expect(report.summaryDetails.controls).toEqual({})
+        expect(report.summaryDetails.frameworks).toEqual([])
+    })
+
+    it('Should map control scores to severities', ()=> {
+        expect(scoreFactorToSeverity(9)).toBe("Critical")
+        expect(scoreFactorToSeverity(8)).toBe("High")
+        expect(scoreFactorToSeverity(4)).toBe("Medium")
+        expect(scoreFactorToSeverity(1)).toBe("Low")
+        expect(scoreFactorToSeverity(undefined)).toBe("Unknown")
+    })
+})
@@ -0,0 +1,64 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { parseReport, toSarif, KubescapeReport } from '../src/index'
+
+const ASSETS = path.resolve('test', 'assets')
+
+describe('Kubescape SARIF export', ()=> {
+    let report : KubescapeReport
+
+    beforeEach(()=> {
+        /* as if deployments.yaml was scanned where it is */
+        report = parseReport(fs.readFileSync(path.join(ASSETS, 'report.json'), 'utf8').replace(/\/home\/user\/manifests/g, ASSETS))
+        report.summaryDetails.controls["C-0057"].description = "Privileged containers have all the capabilities of the host"
+        report.summaryDetails.controls["C-0057"].remediation = "Set privileged to false"
+    })
+
+    it('Should write a rule per control', ()=> {
+        const rules = toSarif(report).runs[0].tool.driver.rules
+
+        expect(rules.map(r => r.id)).toEqual([ "C-0057", "C-0017", "C-0013", "C-0009" ])
+        expect(rules[0]).toMatchObject({
+            fullDescription: { text: "Privileged containers have all the capabilities of the host" },
+            help: { text: "Set privileged to false" },
+            defaultConfiguration: { level: "error" },
+            properties: { tags: [ "security", "kubernetes", "NSA", "MITRE" ], "security-severity": "8.0" }
+        })
+        expect(rules[1].defaultConfiguration.level).toBe("note")
+    })
+
+    it('Should write a result per failed resource and control', ()=> {
+        const sarif = toSarif(report)
+
+        expect(sarif.version).toBe("2.1.0")
+        expect(sarif.runs[0].tool.driver.version).toBe("v2.3.1")
+        expect(sarif.runs[0].results.map(r => r.ruleId)).toEqual([ "C-0057", "C-0017", "C-0013", "C-0009", "C-0017" ])
+        expect(sarif.runs[0].results[4].message.text).toMatch(/^cache\/Deployment\/redis failed control C-0017/)
+    })
+
+    it('Should locate results in the scanned file', ()=> {
+        const result = toSarif(report, { baseDirectory: path.resolve('.') }).runs[0].results[0]
+
+        expect(result.locations[0].physicalLocation).toEqual({
+            artifactLocation: { uri: "test/assets/deployments.yaml" },
+            region: { startLine: 23, startColumn: 11, endLine: 23, endColumn: 27 }
+        })
+    })
+
+    it('Should use file URIs without a base directory', ()=> {
+        const result = toSarif(report, { readFile: () => undefined }).runs[0].results[0]
+
+        expect(result.locations[0].physicalLocation.artifactLocation.uri).toMatch(/^file:\/\/.*deployments\.yaml$/)
+        expect(result.locations[0].physicalLocation.region).toEqual({ startLine: 1 })
+    })
+
+    it('Should only write logical locations of cluster resources', ()=> {
+        report.resources.forEach(resource => delete resource.source)
+        const result = toSarif(report).runs[0].results[0]
+
+        expect(result.locations).toEqual([ {
+            logicalLocations: [ { name: "nginx-deployment", fullyQualifiedName: "Deployment/nginx-deployment", kind: "resource" } ]
+        } ])
+    })
+})
@@ -0,0 +1,625 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { AddressInfo } from 'net'
+import AbortController from 'abort-controller'
+
+import { KubescapeApi, KubescapeCancelledError, KubescapeReportError, KubescapeUi, IKubescapeConfig } from '../src/index'
+
+const ASSETS = path.resolve('test', 'assets')
+
+class QuietUi implements KubescapeUi {
+    info(_msg: string): void {}
+    error(_msg: string): void {}
+    debug(_msg: string): void {}
+    showHelp(_message: string, _url: string): void {}
+    slow<T>(_title: string, work: () => Promise<T>): Promise<T> {
+        return work()
+    }
+    progress<T>(_title: string, _cancel: any, work: (progress: (fraction: number) => void) => Promise<T>): Promise<T> {
+        return work(() => null)
+    }
+}
+
+describe('Kubescape scans', ()=> {
+    let tmpdir : string
+    let config : IKubescapeConfig
+    let kubescapeApi : KubescapeApi
+
+    beforeAll(async ()=> {
+        /* a stand-in binary keeps the scans offline */
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+        fs.copyFileSync(path.join(ASSETS, 'fake-kubescape'), path.join(tmpdir, 'kubescape'))
+        fs.chmodSync(path.join(tmpdir, 'kubescape'), 0o755)
+        process.env.FAKE_KUBESCAPE_ASSETS = ASSETS
+
+        config = {
+            version: "v2.3.1",
+            frameworksDirectory: path.join(tmpdir, 'frameworks'),
+            baseDirectory: tmpdir,
+            requiredFrameworks: [ "nsa" ],
+            scanFrameworks: [ "nsa" ],
+            binaryUrl: undefined,
+            history: { maxEntries: 3 },
+            updateCheck: { disabled: true }
+        }
+
+        kubescapeApi = KubescapeApi.instance
+        expect(await kubescapeApi.setup(new QuietUi, config)).toBe(true)
+    })
+
+    afterEach(()=> {
+        delete process.env.FAKE_KUBESCAPE_SLEEP
+        delete process.env.FAKE_KUBESCAPE_REPORT
+        delete process.env.FAKE_KUBESCAPE_ARGS
+    })
+
+    it('Should build kubescape command with KUBECONFIG when provided', ()=> {
+        expect(kubescapeApi._buildKubescapeCommand("scan")).toBe(`"${kubescapeApi.path}" scan`)
+        expect(kubescapeApi._buildKubescapeCommand("scan", "kubeconfig_path")).toBe(`KUBECONFIG="kubeconfig_path" "${kubescapeApi.path}" scan`)
+
+        // mock process platform to test kubescape command for windows
+        const originalPlatform = process.platform
+        Object.defineProperty(process, 'platform', { get: () => "win32" })
+        try {
+            expect(kubescapeApi._buildKubescapeCommand("scan", "kubeconfig_path")).toBe(`set "KUBECONFIG=kubeconfig_path" & "${kubescapeApi.path}" scan`)
+        } finally {
+            Object.defineProperty(process, 'platform', { value: originalPlatform })
+        }
+    })
+
+    it('Should pass arguments and KUBECONFIG without a shell', ()=> {
+        const spec = kubescapeApi._buildKubescapeSpec("scan framework", "kube $HOME & config", {
+            "output": "report \"1\".json",
+            "keep-local": true,
+            "verbose": false
+        })
+
+        expect(spec).toEqual({
+            file: kubescapeApi.path,
+            args: [ "scan", "framework", "--output", "report \"1\".json", "--keep-local", "--verbose=false" ],
+            env: { KUBECONFIG: "kube $HOME & config" }
+        })
+    })
+
+    it('Should scan a file whose path has shell characters', async ()=> {
+        const dir = path.join(tmpdir, "it's $HOME & $(touch injected); `touch injected`")
+        const filePath = path.join(dir, "deploy $USER;.yaml")
+        fs.mkdirSync(dir)
+        fs.copyFileSync(path.join(ASSETS, 'deployments.yaml'), filePath)
+        process.env.FAKE_KUBESCAPE_ARGS = path.join(tmpdir, 'args.txt')
+
+        const report = await kubescapeApi.scanYaml(new QuietUi, filePath)
+
+        expect(fs.readFileSync(process.env.FAKE_KUBESCAPE_ARGS, 'utf8').split("\n")).toContain(filePath)
+        expect(report.resources[0].source).toMatchObject({ relativePath: "deploy $USER;.yaml" })
+        expect(fs.existsSync(path.join(process.cwd(), 'injected'))).toBe(false)
+        expect(fs.existsSync(path.join(dir, 'injected'))).toBe(false)
+    })
+
+    it('Should pass a kubeconfig path that needs quoting', async ()=> {
+        const kubeconfigPath = path.join(tmpdir, `kube "config" $(touch injected) & more`)
+        process.env.FAKE_KUBESCAPE_ARGS = path.join(tmpdir, 'args.txt')
+
+        await kubescapeApi.scanCluster(new QuietUi, "kind-kind", kubeconfigPath)
+
+        expect(fs.readFileSync(process.env.FAKE_KUBESCAPE_ARGS, 'utf8').split("\n")).toContain(`KUBECONFIG=${kubeconfigPath}`)
+        expect(fs.existsSync(path.join(process.cwd(), 'injected'))).toBe(false)
+    })
+
+    it('Should append control information to the report', async ()=> {
+        const report = await kubescapeApi.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'))
+
+        expect(report.summaryDetails.controls["C-0057"].remediation).toMatch(/privileged to false/)
+    })
+
+    it('Should report sources of a file scan', async ()=> {
+        const report = await kubescapeApi.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'))
+
+        expect(report.resources[0].source).toMatchObject({ path: ASSETS, relativePath: "deployments.yaml" })
+    })
+
+    it('Should apply suppressions to scan results', async ()=> {
+        const suppressions = [ { controlID: "C-0017", resource: { namespace: "cache" }, reason: "read-only cache" } ]
+        const report = await kubescapeApi.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'), undefined,
+            { suppressions: suppressions, suppressionsAsExceptions: true })
+
+        expect(report.summaryDetails.controls["C-0017"].ResourceCounters).toMatchObject({ failedResources: 1, passedResources: 1 })
+    })
+
+    it('Should keep scans in the history', async ()=> {
+        await kubescapeApi.scanCluster(new QuietUi, "kind-kind")
+        await kubescapeApi.scanContent(new QuietUi, "kind: Pod\n", { fileName: "untitled:Untitled-1" })
+
+        const entries = await kubescapeApi.history.list()
+        expect(entries).toHaveLength(3)
+        expect(entries.find(e => e.type === "content")).toMatchObject({ target: "untitled:Untitled-1", frameworks: [ "nsa" ] })
+        expect(entries.find(e => e.type === "cluster"))
+            .toMatchObject({ target: "kind-kind", context: "kind-kind", kubescapeVersion: "v2.3.1" })
+    })
+
+    it('Should locate the findings of a file scan', async ()=> {
+        const located = await kubescapeApi.scanYamlWithLocations(new QuietUi, path.join(ASSETS, 'deployments.yaml'))
+
+        expect(located.report.summaryDetails.controls["C-0057"]).toBeDefined()
+        expect(located.locations.map(l => l.resource.name)).toEqual([ "nginx-deployment", "redis" ])
+    })
+
+    it('Should scan unsaved content under its original name', async ()=> {
+        const yamlText = fs.readFileSync(path.join(ASSETS, 'deployments.yaml'), 'utf8')
+        const report = await kubescapeApi.scanContent(new QuietUi, yamlText, { fileName: "/work/app/deploy.yaml" })
+
+        for (let resource of report.resources) {
+            expect(resource.source).toMatchObject({ path: "/work/app", relativePath: "deploy.yaml" })
+        }
+        expect(report.metadata.scanMetadata.targetNames).toEqual([ "/work/app/deploy.yaml" ])
+    })
+
+    it('Should scan unsaved content of virtual documents', async ()=> {
+        const report = await kubescapeApi.scanContent(new QuietUi, "kind: Pod\n", { fileName: "untitled:Untitled-1" })
+
+        expect(report.resources[0].source).toMatchObject({ path: "", relativePath: "untitled:Untitled-1" })
+    })
+
+    it('Should stop a scan when aborted', async ()=> {
+        process.env.FAKE_KUBESCAPE_SLEEP = "30"
+        const abort = new AbortController
+        const started = Date.now()
+
+        const scan = kubescapeApi.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'), undefined, { abort: abort })
+        setTimeout(() => abort.abort(), 200)
+
+        await expect(scan).rejects.toBeInstanceOf(KubescapeCancelledError)
+        await expect(scan).rejects.toHaveProperty('reason', "aborted")
+        expect(Date.now() - started).toBeLessThan(10 * 1000)
+    })
+
+    it('Should stop a cluster scan on timeout', async ()=> {
+        process.env.FAKE_KUBESCAPE_SLEEP = "30"
+
+        const scan = kubescapeApi.scanCluster(new QuietUi, "kind-kind", undefined, undefined, { timeout: 200 })
+
+        await expect(scan).rejects.toHaveProperty('reason', "timeout")
+    })
+
+    it('Should not start an already aborted scan', async ()=> {
+        const abort = new AbortController
+        abort.abort()
+
+        await expect(kubescapeApi.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'), undefined, { abort: abort }))
+            .rejects.toHaveProperty('reason', "aborted")
+    })
+
+    it('Should reject a truncated report', async ()=> {
+        const report = fs.readFileSync(path.join(ASSETS, 'report.json'), 'utf8')
+        process.env.FAKE_KUBESCAPE_REPORT = path.join(tmpdir, 'truncated.json')
+        fs.writeFileSync(process.env.FAKE_KUBESCAPE_REPORT, report.substring(0, report.length / 2))
+
+        await expect(kubescapeApi.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml')))
+            .rejects.toBeInstanceOf(KubescapeReportError)
+    })
+
+    it('Should create instances independent of the default one', async ()=> {
+        const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+        try {
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            const other = await KubescapeApi.create(new QuietUi, {
+                ...config,
+                frameworksDirectory: path.join(otherDir, 'frameworks'),
+                baseDirectory: otherDir,
+                history: undefined
+            })
+
+            expect(other).not.toBe(KubescapeApi.instance)
+            expect(other.directory).toBe(otherDir)
+            expect(kubescapeApi.directory).toBe(tmpdir)
+            expect(other.history).toBeUndefined()
+            expect(kubescapeApi.history).toBeDefined()
+
+            const report = await other.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'))
+            expect(report.summaryDetails.controls["C-0057"].remediation).toMatch(/privileged to false/)
+        } finally {
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        }
+    })
+
+    it('Should restore the binary kept by an interrupted update', async ()=> {
+        const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+        try {
+            /* the update stopped after the current binary was moved aside */
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape.bak'))
+            const other = await KubescapeApi.create(new QuietUi, {
+                ...config,
+                frameworksDirectory: path.join(otherDir, 'frameworks'),
+                baseDirectory: otherDir,
+                history: undefined
+            })
+
+            expect(other.path).toBe(path.join(otherDir, 'kubescape'))
+            expect(other.version).toBe("v2.3.1")
+            expect(fs.existsSync(path.join(otherDir, 'kubescape.bak'))).toBe(false)
+            other.dispose()
+        } finally {
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        }
+    })
+
+    it('Should keep the history in an encoded base directory', async ()=> {
+        const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape scan '))
+        try {
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            const encodedDir = otherDir.replace(/ /g, '%20')
+            const other = await KubescapeApi.create(new QuietUi, {
+                ...config,
+                frameworksDirectory: path.join(otherDir, 'frameworks'),
+                baseDirectory: encodedDir
+            })
+
+            await other.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'))
+
+            expect(other.history.directory).toBe(path.join(otherDir, 'history'))
+            expect(await other.history.list()).toHaveLength(1)
+            expect(fs.existsSync(encodedDir)).toBe(false)
+            other.dispose()
+        } finally {
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        }
+    })
+
+    it('Should use a version installed side by side', async ()=> {
+        const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+        try {
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            fs.mkdirSync(path.join(otherDir, 'versions', 'v2.4.0'), { recursive: true })
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'versions', 'v2.4.0', 'kubescape'))
+            process.env.FAKE_KUBESCAPE_VERSION = "v2.4.0"
+
+            const other = await KubescapeApi.create(new QuietUi, {
+                ...config,
+                version: "v2.4.0",
+                frameworksDirectory: path.join(otherDir, 'frameworks'),
+                baseDirectory: otherDir,
+                history: undefined
+            })
+
+            expect(other.path).toBe(path.join(otherDir, 'versions', 'v2.4.0', 'kubescape'))
+            expect(other.version).toBe("v2.4.0")
+            expect(await other.listVersions()).toMatchObject([ { version: "v2.4.0", active: true } ])
+            await expect(other.activateVersion(new QuietUi, "v2.3.1")).rejects.toThrow(/not installed/)
+            expect(await other.pruneVersions(0)).toEqual([])
+            other.dispose()
+        } finally {
+            delete process.env.FAKE_KUBESCAPE_VERSION
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        }
+    })
+
+    it('Should tell about newer releases after setup', async ()=> {
+        const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+        try {
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            const url = "https://github.com/armosec/kubescape/releases/tag/v2.4.0"
+            fs.writeFileSync(path.join(otherDir, 'update-check.json'),
+                JSON.stringify({ version: "v2.4.0", url: url, checkedAt: new Date().toISOString() }))
+
+            const ui = new QuietUi
+            const help = new Promise<string[]>(resolve => ui.showHelp = (message, url) => resolve([ message, url ]))
+            const other = await KubescapeApi.create(ui, {
+                ...config,
+                frameworksDirectory: path.join(otherDir, 'frameworks'),
+                baseDirectory: otherDir,
+                history: undefined,
+                updateCheck: {}
+            })
+
+            expect(await help).toEqual([ "Kubescape v2.4.0 is available, you are using v2.3.1", url ])
+            expect(other.isLatestVersion).toBe(false)
+            other.dispose()
+        } finally {
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        }
+    })
+
+    describe('Side by side installs', ()=> {
+        const binary = `#!/bin/sh\n${"# padding to split the download in the middle\n".repeat(100)}echo kubescape\n`
+        const half = Math.floor(binary.length / 2)
+        let server : http.Server
+        let address : string
+        let ranges : string[]
+        let downloading : () => void
+        let lookingUp : () => void
+        let otherDir : string
+        let otherConfig : IKubescapeConfig
+        let other : KubescapeApi
+
+        beforeAll(async ()=> {
+            server = http.createServer((req, res) => {
+                if (req.url === "/api/releases/latest") {
+                    lookingUp()
+                    res.writeHead(200, { 'content-type': 'application/json' })
+                    const release = JSON.stringify({ tag_name: "v9.9.7", html_url: `${address}/releases/v9.9.7` })
+                    return setTimeout(() => res.end(release), 100)
+                }
+                if (!req.url.startsWith("/download/v9.9.9/") && !req.url.startsWith("/download/v9.9.7/")) {
+                    res.writeHead(404)
+                    return res.end()
+                }
+                if (req.url.endsWith(".sha256")) {
+                    res.writeHead(200)
+                    return res.end(crypto.createHash('sha256').update(binary).digest('hex'))
+                }
+                if (req.url.startsWith("/download/v9.9.7/")) {
+                    /* a slow download, completed once the test went on */
+                    downloading()
+                    res.writeHead(200, { 'content-length': binary.length })
+                    res.write(binary.substring(0, half))
+                    return setTimeout(() => res.end(binary.substring(half)), 200)
+                }
+
+                ranges.push(req.headers.range)
+                const range = req.headers.range?.match(/^bytes=(\d+)-$/)
+                if (range) {
+                    const start = Number(range[1])
+                    res.writeHead(206, {
+                        'content-length': binary.length - start,
+                        'content-range': `bytes ${start}-${binary.length - 1}/${binary.length}`
+                    })
+                    return res.end(binary.substring(start))
+                }
+                /* drop the connection in the middle of the first download */
+                res.writeHead(200, { 'content-length': binary.length })
+                return res.write(binary.substring(0, half), () => res.destroy())
+            })
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+            address = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        })
+
+        beforeEach(async ()=> {
+            ranges = []
+            downloading = () => null
+            lookingUp = () => null
+            otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            otherConfig = {
+                ...config,
+                frameworksDirectory: path.join(otherDir, 'frameworks'),
+                baseDirectory: otherDir,
+                history: undefined,
+                releaseSource: { apiUrl: `${address}/api`, downloadUrlTemplate: `${address}/download/{version}/{asset}` },
+                download: { retries: 0, retryDelay: 10, requestTimeout: 1000 }
+            }
+            other = await KubescapeApi.create(new QuietUi, otherConfig)
+        })
+
+        afterEach(()=> {
+            other.dispose()
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        })
+
+        it('Should resume an interrupted install on the next attempt', async ()=> {
+            await expect(other.installVersion(new QuietUi, "v9.9.9")).rejects.toThrow(/Could not install/)
+
+            const versionDir = path.join(otherDir, 'versions', 'v9.9.9')
+            expect(fs.readdirSync(versionDir)).toEqual([ "kubescape.download.partial" ])
+            expect(await other.listVersions()).toEqual([])
+
+            expect(await other.installVersion(new QuietUi, "v9.9.9")).toBe("v9.9.9")
+            expect(ranges).toEqual([ undefined, `bytes=${half}-` ])
+            expect(fs.readFileSync(path.join(versionDir, 'kubescape'), 'utf8')).toBe(binary)
+            expect(await other.listVersions()).toMatchObject([ { version: "v9.9.9", active: false } ])
+            expect(other.path).toBe(path.join(otherDir, 'kubescape'))
+        })
+
+        it('Should keep the connections of a running install when the network settings change', async ()=> {
+            const client = other['_http']
+            const dispose = jest.spyOn(client, 'dispose')
+            await other.reconfigure(new QuietUi, { ...otherConfig })
+            expect(other['_http']).toBe(client)
+
+            const started = new Promise<void>(resolve => downloading = resolve)
+            const install = other.installVersion(new QuietUi, "v9.9.7")
+            await started
+            await other.reconfigure(new QuietUi, { ...otherConfig, http: { noProxy: "127.0.0.1" } })
+            expect(other['_http']).not.toBe(client)
+            expect(dispose).not.toHaveBeenCalled()
+
+            expect(await install).toBe("v9.9.7")
+            expect(dispose).toHaveBeenCalled()
+        })
+
+        it('Should follow the latest release with update checks turned off', async ()=> {
+            process.env.KUBESCAPE_SKIP_UPDATE_CHECK = "1"
+            try {
+                const ui = new QuietUi
+                ui.showHelp = jest.fn()
+                const latestConfig = { ...otherConfig, version: "latest" }
+                const latest = await KubescapeApi.create(ui, latestConfig)
+                expect(latest.path).toBe(path.join(otherDir, 'kubescape'))
+
+                /* waits for the lookup started by the setup */
+                expect(await latest.checkForUpdates(ui)).toBeUndefined()
+                expect(await latest.updateCheck.cached()).toMatchObject({ version: "v9.9.7" })
+                latest.dispose()
+
+                const next = await KubescapeApi.create(ui, latestConfig)
+                expect(next.path).toBe(path.join(otherDir, 'versions', 'v9.9.7', 'kubescape'))
+                expect(ui.showHelp).not.toHaveBeenCalled()
+                next.dispose()
+            } finally {
+                delete process.env.KUBESCAPE_SKIP_UPDATE_CHECK
+            }
+        })
+
+        it('Should drop the update check of a disposed instance', async ()=> {
+            const ui = new QuietUi
+            ui.showHelp = jest.fn()
+            const started = new Promise<void>(resolve => lookingUp = resolve)
+            const checked = await KubescapeApi.create(ui, { ...otherConfig, updateCheck: {} })
+            await started
+            checked.dispose()
+
+            await new Promise(resolve => setTimeout(resolve, 300))
+            expect(ui.showHelp).not.toHaveBeenCalled()
+            expect(fs.existsSync(checked.updateCheck.cacheFile)).toBe(false)
+        })
+
+        afterAll(async ()=> {
+            server.closeAllConnections()
+            await new Promise(resolve => server.close(resolve))
+        })
+    })
+
+    describe('System binary', ()=> {
+        let otherDir : string
+        let systemDir : string
+        let searchPath : string
+
+        beforeEach(()=> {
+            otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+            systemDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-system-'))
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(systemDir, 'kubescape'))
+            searchPath = process.env.PATH
+            process.env.PATH = `${systemDir}${path.delimiter}${searchPath}`
+        })
+
+        afterEach(()=> {
+            process.env.PATH = searchPath
+            fs.rmSync(otherDir, { recursive: true, force: true })
+            fs.rmSync(systemDir, { recursive: true, force: true })
+        })
+
+        const systemConfig = (changes : Partial<IKubescapeConfig>) : IKubescapeConfig => ({
+            ...config,
+            frameworksDirectory: path.join(otherDir, 'frameworks'),
+            baseDirectory: otherDir,
+            history: undefined,
+            ...changes
+        })
+
+        it('Should use kubescape found in PATH', async ()=> {
+            const other = await KubescapeApi.create(new QuietUi, systemConfig({ binaryPolicy: "system-only" }))
+
+            expect(other.path).toBe(path.join(systemDir, 'kubescape'))
+            expect(other.version).toBe("v2.3.1")
+            expect(fs.existsSync(path.join(otherDir, 'kubescape'))).toBe(false)
+            other.dispose()
+        })
+
+        it('Should use an explicit system binary', async ()=> {
+            process.env.PATH = searchPath
+            const systemBinary = path.join(systemDir, 'kubescape')
+            const other = await KubescapeApi.create(new QuietUi,
+                systemConfig({ binaryPolicy: "system-only", systemBinary: systemBinary }))
+
+            expect(other.path).toBe(systemBinary)
+            other.dispose()
+        })
+
+        it('Should not install kubescape with the system-only policy', async ()=> {
+            await expect(KubescapeApi.create(new QuietUi,
+                systemConfig({ binaryPolicy: "system-only", systemBinary: path.join(otherDir, 'missing') })))
+                .rejects.toThrow(/setup failed/)
+        })
+
+        it('Should prefer the managed binary when the system one is another version', async ()=> {
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            fs.writeFileSync(path.join(systemDir, 'kubescape'), "#!/bin/sh\necho 'Your current version is: v2.0.0'\n")
+            const other = await KubescapeApi.create(new QuietUi, systemConfig({ binaryPolicy: "prefer-system" }))
+
+            expect(other.path).toBe(path.join(otherDir, 'kubescape'))
+            expect(other.version).toBe("v2.3.1")
+            other.dispose()
+        })
+
+        it('Should prefer the managed binary when the system one is older than the latest release', async ()=> {
+            const latestConfig = systemConfig({ binaryPolicy: "prefer-system", version: "latest" })
+            fs.mkdirSync(path.join(otherDir, 'versions', 'v2.4.0'), { recursive: true })
+            fs.writeFileSync(path.join(otherDir, 'versions', 'v2.4.0', 'kubescape'),
+                "#!/bin/sh\necho 'Your current version is: v2.4.0'\n", { mode: 0o755 })
+
+            /* any version passes as long as no newer release is known */
+            fs.writeFileSync(path.join(otherDir, 'update-check.json'),
+                JSON.stringify({ version: "v2.3.1", checkedAt: new Date().toISOString() }))
+            const current = await KubescapeApi.create(new QuietUi, latestConfig)
+            expect(current.path).toBe(path.join(systemDir, 'kubescape'))
+            current.dispose()
+
+            fs.writeFileSync(path.join(otherDir, 'update-check.json'),
+                JSON.stringify({ version: "v2.4.0", checkedAt: new Date().toISOString() }))
+            const outdated = await KubescapeApi.create(new QuietUi, latestConfig)
+            expect(outdated.path).toBe(path.join(otherDir, 'versions', 'v2.4.0', 'kubescape'))
+            expect(outdated.version).toBe("v2.4.0")
+            outdated.dispose()
+        })
+
+        it('Should not use a system binary that fails to tell its version', async ()=> {
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            fs.writeFileSync(path.join(systemDir, 'kubescape'),
+                "#!/bin/sh\ncase \"$1\" in version) echo 'no version' >&2; exit 1 ;; esac\necho kubescape\n")
+            const other = await KubescapeApi.create(new QuietUi, systemConfig({ binaryPolicy: "prefer-system" }))
+
+            expect(other.path).toBe(path.join(otherDir, 'kubescape'))
+            expect(other.version).toBe("v2.3.1")
+            other.dispose()
+
+            await expect(KubescapeApi.create(new QuietUi, systemConfig({ binaryPolicy: "system-only" })))
+                .rejects.toThrow()
+        })
+    })
+
+    describe('Reconfiguring', ()=> {
+        let otherDir : string
+        let otherConfig : IKubescapeConfig
+        let other : KubescapeApi
+
+        beforeEach(async ()=> {
+            otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-scan-'))
+            fs.copyFileSync(path.join(tmpdir, 'kubescape'), path.join(otherDir, 'kubescape'))
+            otherConfig = { ...config, frameworksDirectory: path.join(otherDir, 'frameworks'), baseDirectory: otherDir }
+            other = await KubescapeApi.create(new QuietUi, otherConfig)
+        })
+
+        afterEach(()=> {
+            other.dispose()
+            fs.rmSync(otherDir, { recursive: true, force: true })
+        })
+
+        it('Should change nothing for the same configuration', async ()=> {
+            expect(await other.reconfigure(new QuietUi, { ...otherConfig }))
+                .toEqual({ binary: false, frameworks: false, scanFrameworks: false })
+        })
+
+        it('Should only select the scanned frameworks again', async ()=> {
+            const changes = await other.reconfigure(new QuietUi, { ...otherConfig, scanFrameworks: [ "all" ] })
+
+            expect(changes).toEqual({ binary: false, frameworks: false, scanFrameworks: true })
+            expect(other.frameworksNames).toEqual([ "nsa" ])
+        })
+
+        it('Should move the frameworks to a new directory', async ()=> {
+            const frameworksDirectory = path.join(otherDir, 'moved')
+            const changes = await other.reconfigure(new QuietUi, { ...otherConfig, frameworksDirectory: frameworksDirectory })
+
+            expect(changes).toEqual({ binary: false, frameworks: true, scanFrameworks: true })
+            expect(other.frameworkDirectory).toBe(frameworksDirectory)
+            expect(fs.existsSync(path.join(frameworksDirectory, 'nsa.json'))).toBe(true)
+        })
+
+        it('Should stop running scans when disposed', async ()=> {
+            process.env.FAKE_KUBESCAPE_SLEEP = "30"
+            const scan = other.scanYaml(new QuietUi, path.join(ASSETS, 'deployments.yaml'))
+            setTimeout(() => other.dispose(), 200)
+
+            await expect(scan).rejects.toHaveProperty('reason', "aborted")
+            expect(await other.reconfigure(new QuietUi, otherConfig))
+                .toEqual({ binary: true, frameworks: true, scanFrameworks: true })
+        })
+    })
+
+    afterAll(()=> {
+        delete process.env.FAKE_KUBESCAPE_ASSETS
+        fs.rmSync(tmpdir, { recursive: true })
+    })
+})
@@ -0,0 +1,100 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import {
+    applySuppressions, isSuppressionExpired, parseReport, parseSuppressions, toKubescapeExceptions,
+    KubescapeReport, KubescapeReportQuery, KubescapeSuppressionError
+} from '../src/index'
+
+const NOW = new Date("2024-06-01T12:00:00Z")
+
+describe('Kubescape suppressions', ()=> {
+    let report : KubescapeReport
+
+    beforeEach(()=> {
+        report = parseReport(fs.readFileSync(path.resolve('test', 'assets', 'report.json'), 'utf8'))
+    })
+
+    it('Should parse suppression files', ()=> {
+        const suppressions = parseSuppressions([
+            "suppressions:",
+            "  - controlID: C-0057",
+            "    resource: { kind: Deployment, name: nginx-* }",
+            "    reason: the ingress needs host access",
+            "    expires: 2024-12-31"
+        ].join("\n"))
+
+        expect(suppressions).toEqual([ {
+            controlID: "C-0057",
+            resource: { kind: "Deployment", name: "nginx-*" },
+            reason: "the ingress needs host access",
+            expires: "2024-12-31"
+        } ])
+    })
+
+    it('Should reject suppressions without a reason', ()=> {
+        expect(() => parseSuppressions(`{ "suppressions": [ { "controlID": "C-0057" } ] }`, "waivers.json"))
+            .toThrow(new KubescapeSuppressionError("suppressions[0] is missing the reason", "waivers.json"))
+    })
+
+    it('Should expire suppressions after their last day', ()=> {
+        expect(isSuppressionExpired({ controlID: "C-0057", reason: "r", expires: "2024-06-01" }, NOW)).toBe(false)
+        expect(isSuppressionExpired({ controlID: "C-0057", reason: "r", expires: "2024-05-31" }, NOW)).toBe(true)
+        expect(isSuppressionExpired({ controlID: "C-0057", reason: "r", expires: "2024-06-01T11:00:00Z" }, NOW)).toBe(true)
+    })
+
+    it('Should pass suppressed failures and recalculate the summary', ()=> {
+        const result = applySuppressions(report, [
+            { controlID: "C-0057", resource: { kind: "deployment", name: "nginx-*" }, reason: "ingress" }
+        ], NOW)
+
+        expect(result.suppressed.map(s => s.finding.resource.name)).toEqual([ "nginx-deployment" ])
+        expect(new KubescapeReportQuery(result.report).findings({ controlID: "C-0057", status: "failed" })).toEqual([])
+
+        const control = result.report.summaryDetails.controls["C-0057"]
+        expect(control).toMatchObject({ status: "passed", complianceScore: 100 })
+        expect(control.ResourceCounters).toMatchObject({ passedResources: 2, failedResources: 0 })
+        expect(result.report.summaryDetails.frameworks.map(f => f.complianceScore)).toEqual([ 50, 50 ])
+        expect(result.report.summaryDetails.complianceScore).toBe(50)
+        expect(result.report.summaryDetails.controlsSeverityCounters).toEqual(
+            { criticalSeverity: 0, highSeverity: 1, mediumSeverity: 1, lowSeverity: 1 })
+
+        /* the original is left alone */
+        expect(report.summaryDetails.controls["C-0057"].status).toBe("failed")
+    })
+
+    it('Should report expired suppressions without applying them', ()=> {
+        const expired = { controlID: "*", resource: { namespace: "cache" }, reason: "legacy", expires: "2024-01-01" }
+        const result = applySuppressions(report, [ expired ], NOW)
+
+        expect(result.suppressed).toEqual([])
+        expect(result.expired).toEqual([ expired ])
+        expect(result.report).toEqual(report)
+    })
+
+    it('Should translate suppressions to kubescape exceptions', ()=> {
+        const exceptions = toKubescapeExceptions([
+            { controlID: "C-0057", resource: { kind: "DaemonSet", name: "calico-*", namespace: "kube-system" }, reason: "CNI" },
+            { controlID: "C-0017", reason: "old", expires: "2024-01-01" }
+        ], NOW)
+
+        expect(exceptions).toEqual([ {
+            name: "suppression-1",
+            policyType: "postureExceptionPolicy",
+            actions: [ "alertOnly" ],
+            resources: [ { designatorType: "Attributes",
+                attributes: { kind: "^DaemonSet$", name: "^calico-.*$", namespace: "^kube-system$" } } ],
+            posturePolicies: [ { controlID: "C-0057" } ],
+            reason: "CNI"
+        } ])
+    })
+
+    it('Should export resource names matching whole names only', ()=> {
+        const [ exception ] = toKubescapeExceptions([ { controlID: "C-0057", resource: { name: "web" }, reason: "public" } ], NOW)
+        const name = new RegExp(exception.resources[0].attributes.name)
+
+        expect(name.test("web")).toBe(true)
+        expect(name.test("web-admin")).toBe(false)
+        expect(name.test("old-web")).toBe(false)
+    })
+})
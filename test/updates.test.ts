@@ -0,0 +1,98 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import AbortController from 'abort-controller'
+
+import { KubescapeReleaseInfo, KubescapeUpdateCheck } from '../src/index'
+
+const HOUR = 60 * 60 * 1000
+
+describe('Kubescape update checks', ()=> {
+    let tmpdir : string
+    let lookups : number
+    let release : KubescapeReleaseInfo
+
+    const lookup = async () : Promise<KubescapeReleaseInfo> => {
+        lookups++
+        return release
+    }
+
+    beforeEach(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-updates-'))
+        lookups = 0
+        release = { version: "v2.4.0", url: "https://github.com/armosec/kubescape/releases/tag/v2.4.0" }
+    })
+
+    afterEach(()=> {
+        delete process.env.KUBESCAPE_SKIP_UPDATE_CHECK
+        fs.rmSync(tmpdir, { recursive: true, force: true })
+    })
+
+    it('Should find a newer release', async ()=> {
+        const updateCheck = KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup)
+
+        expect(await updateCheck.check("v2.3.1"))
+            .toEqual({ currentVersion: "v2.3.1", latestVersion: "v2.4.0", url: release.url })
+        expect(await updateCheck.check("v2.4.0")).toBeUndefined()
+        expect(await updateCheck.check("v2.10.0")).toBeUndefined()
+    })
+
+    it('Should look up the latest release once per time to live', async ()=> {
+        const updateCheck = KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup, { ttl: HOUR })
+        const now = new Date("2024-06-01T10:00:00Z")
+
+        await Promise.all([ updateCheck.check("v2.3.1", now), updateCheck.check("v2.3.1", now) ])
+        await updateCheck.check("v2.3.1", new Date(now.getTime() + HOUR / 2))
+        expect(lookups).toBe(1)
+        expect(JSON.parse(fs.readFileSync(updateCheck.cacheFile, 'utf8')))
+            .toEqual({ ...release, checkedAt: "2024-06-01T10:00:00.000Z" })
+
+        release = { version: "v2.5.0" }
+        expect(await updateCheck.check("v2.3.1", new Date(now.getTime() + 2 * HOUR)))
+            .toMatchObject({ latestVersion: "v2.5.0" })
+        expect(lookups).toBe(2)
+    })
+
+    it('Should share the cache between instances', async ()=> {
+        await KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup).latest()
+
+        const other = KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup)
+        expect(await other.cached()).toMatchObject(release)
+        expect(lookups).toBe(1)
+    })
+
+    it('Should not look up anything when opted out', async ()=> {
+        expect(await KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup, { disabled: true }).check("v2.3.1")).toBeUndefined()
+
+        process.env.KUBESCAPE_SKIP_UPDATE_CHECK = "1"
+        expect(await KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup).check("v2.3.1")).toBeUndefined()
+        expect(lookups).toBe(0)
+
+        process.env.KUBESCAPE_SKIP_UPDATE_CHECK = "false"
+        expect(KubescapeUpdateCheck.inBaseDirectory(tmpdir, lookup).isDisabled).toBe(false)
+    })
+
+    it('Should look up again after a failed lookup', async ()=> {
+        const updateCheck = KubescapeUpdateCheck.inBaseDirectory(tmpdir, async () => {
+            lookups++
+            throw new Error("offline")
+        })
+
+        await expect(updateCheck.check("v2.3.1")).rejects.toThrow(/offline/)
+        await expect(updateCheck.check("v2.3.1")).rejects.toThrow(/offline/)
+        expect(lookups).toBe(2)
+        expect(await updateCheck.cached()).toBeUndefined()
+    })
+
+    it('Should not cache an aborted lookup', async ()=> {
+        const abort = new AbortController
+        const updateCheck = KubescapeUpdateCheck.inBaseDirectory(tmpdir, async () => {
+            abort.abort()
+            return lookup()
+        })
+
+        await expect(updateCheck.check("v2.3.1", undefined, abort.signal)).rejects.toThrow(/aborted/)
+        expect(fs.existsSync(updateCheck.cacheFile)).toBe(false)
+    })
+})
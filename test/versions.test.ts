@@ -0,0 +1,85 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import { KubescapeVersions } from '../src/index'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('Kubescape side by side versions', ()=> {
+    let tmpdir : string
+    let versions : KubescapeVersions
+
+    const installVersion = (version : string) => {
+        fs.mkdirSync(versions.versionDirectory(version), { recursive: true })
+        fs.writeFileSync(versions.binaryPath(version), "#!/bin/sh\n")
+    }
+
+    beforeEach(()=> {
+        tmpdir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubescape-versions-'))
+        versions = KubescapeVersions.inBaseDirectory(tmpdir)
+    })
+
+    afterEach(()=> {
+        fs.rmSync(tmpdir, { recursive: true, force: true })
+    })
+
+    it('Should list installed versions newest first', async ()=> {
+        for (const version of [ "v2.3.1", "v2.10.0", "v2.9.4" ]) {
+            installVersion(version)
+        }
+        /* left behind by an interrupted install */
+        fs.mkdirSync(path.join(versions.directory, "v3.0.0"))
+
+        expect(versions.directory).toBe(path.join(tmpdir, "versions"))
+        expect((await versions.list()).map(installed => installed.version)).toEqual([ "v2.10.0", "v2.9.4", "v2.3.1" ])
+        expect(await versions.active()).toBeUndefined()
+    })
+
+    it('Should list nothing before the first install', async ()=> {
+        expect(await versions.list()).toEqual([])
+    })
+
+    it('Should activate installed versions only', async ()=> {
+        installVersion("v2.3.1")
+        installVersion("v2.4.0")
+
+        await versions.activate("v2.4.0", new Date("2024-06-01T10:00:00Z"))
+
+        expect(await versions.active()).toBe("v2.4.0")
+        expect((await versions.list()).find(installed => installed.active))
+            .toEqual({ version: "v2.4.0", path: versions.binaryPath("v2.4.0"), active: true, lastUsed: "2024-06-01T10:00:00.000Z" })
+        await expect(versions.activate("v9.9.9")).rejects.toThrow(/not installed/)
+    })
+
+    it('Should refuse versions that are not plain names', ()=> {
+        expect(() => versions.binaryPath("../kubescape")).toThrow(/Invalid kubescape version/)
+        expect(versions.isInstalled("..")).toBe(false)
+    })
+
+    it('Should forget removed versions', async ()=> {
+        installVersion("v2.3.1")
+        await versions.activate("v2.3.1")
+
+        expect(await versions.remove("v2.3.1")).toBe(true)
+        expect(await versions.remove("v2.3.1")).toBe(false)
+        expect(await versions.active()).toBeUndefined()
+        expect(fs.existsSync(versions.versionDirectory("v2.3.1"))).toBe(false)
+    })
+
+    it('Should prune versions unused for too long', async ()=> {
+        const now = new Date("2024-06-30T00:00:00Z")
+        for (const version of [ "v2.3.0", "v2.3.1", "v2.4.0", "v2.5.0" ]) {
+            installVersion(version)
+        }
+        await versions.markUsed("v2.3.0", new Date(now.getTime() - 40 * DAY))
+        await versions.markUsed("v2.3.1", new Date(now.getTime() - 40 * DAY))
+        await versions.markUsed("v2.4.0", new Date(now.getTime() - 5 * DAY))
+        await versions.activate("v2.5.0", new Date(now.getTime() - 60 * DAY))
+
+        const removed = await versions.prune(30, now, [ "v2.3.1" ])
+
+        expect(removed.map(installed => installed.version)).toEqual([ "v2.3.0" ])
+        expect((await versions.list()).map(installed => installed.version)).toEqual([ "v2.5.0", "v2.4.0", "v2.3.1" ])
+    })
+})